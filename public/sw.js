@@ -0,0 +1,69 @@
+// Service worker for offline use. The build replaces the precache manifest
+// below with every emitted asset (app shell, lazy tool chunks, the pdf.js
+// worker) plus the files in public/, and stamps a cache version derived from
+// it. See the precacheManifest plugin in vite.config.ts.
+
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST__ || [];
+const CACHE_NAME = "productivity-hub-__CACHE_VERSION__";
+const APP_SHELL = "/index.html";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+// A new version only activates once every tab running the old one is closed,
+// so open tabs never lose the chunks they may still lazy-load.
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("productivity-hub-") && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Online-only tools (dictionary, weather) talk to other origins directly
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Navigations prefer the network so a deploy shows up on the next load,
+  // falling back to the cached shell which routes client-side
+  if (request.mode === "navigate") {
+    event.respondWith(fetch(request).catch(() => caches.match(APP_SHELL)));
+    return;
+  }
+
+  event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+});
+
+// Notifications carry the route of the item they announce. Reuse an open
+// window when there is one and let the app route client-side; action buttons
+// (like snooze) are handed to the app without focusing it.
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  const url = data.url || "/";
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const client = windows[0];
+      if (!client) return self.clients.openWindow(url);
+
+      if (event.action) {
+        client.postMessage({ type: "notification-action", action: event.action, data });
+        return;
+      }
+      client.postMessage({ type: "open-url", url });
+      return client.focus();
+    })
+  );
+});
@@ -0,0 +1,97 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { getToolById } from "@/lib/tools";
+import { loadSearchableContent, searchContent, searchTools, type ContentItem } from "@/lib/search";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [content, setContent] = useState<ContentItem[]>([]);
+  const navigate = useNavigate();
+
+  // Content is re-read whenever the palette opens so it reflects the latest saves
+  useEffect(() => {
+    if (!open) {
+      setQuery("");
+      return;
+    }
+
+    let cancelled = false;
+    loadSearchableContent()
+      .then((items) => {
+        if (!cancelled) setContent(items);
+      })
+      .catch((error) => console.error("Failed to load search content:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const toolResults = useMemo(() => searchTools(query), [query]);
+  const contentResults = useMemo(() => searchContent(content, query), [content, query]);
+
+  const goTo = (route: string) => {
+    onOpenChange(false);
+    navigate(route);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} commandProps={{ shouldFilter: false }}>
+      <CommandInput
+        placeholder="Search tools, notes, tasks, events..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList className="max-h-[400px]">
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {toolResults.length > 0 && (
+          <CommandGroup heading="Tools">
+            {toolResults.map(({ tool }) => (
+              <CommandItem key={tool.id} value={`tool:${tool.id}`} onSelect={() => goTo(tool.route)}>
+                <tool.icon className="mr-2 h-4 w-4" />
+                <span>{tool.title}</span>
+                <span className="ml-auto text-xs text-muted-foreground truncate max-w-[50%]">
+                  {tool.description}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {contentResults.length > 0 && (
+          <CommandGroup heading="Your Content">
+            {contentResults.map((result) => {
+              const tool = getToolById(result.toolId);
+              const Icon = tool?.icon;
+              return (
+                <CommandItem key={result.key} value={result.key} onSelect={() => goTo(result.route)}>
+                  {Icon && <Icon className="mr-2 h-4 w-4" />}
+                  <div className="flex flex-col min-w-0">
+                    <span className="truncate">{result.title}</span>
+                    {result.detail && (
+                      <span className="text-xs text-muted-foreground truncate">{result.detail}</span>
+                    )}
+                  </div>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground shrink-0">{tool?.title}</span>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,21 @@
+import type { TextSegment } from "@/lib/note-search";
+
+interface HighlightedTextProps {
+  segments: TextSegment[];
+}
+
+export function HighlightedText({ segments }: HighlightedTextProps) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatJournalDay, getJournalWeek, shiftJournalDate } from "@/lib/note-templates";
+import { todayString } from "@/lib/tasks";
+
+interface JournalStripProps {
+  // Days that already have a journal note
+  journalDates: string[];
+  // The day of the open journal note, if one is open
+  selectedDate: string | null;
+  // Opens the day's note, creating it if needed
+  onOpen: (date: string) => void;
+}
+
+export function JournalStrip({ journalDates, selectedDate, onOpen }: JournalStripProps) {
+  const today = todayString();
+  const [anchor, setAnchor] = useState(selectedDate ?? today);
+
+  // Follow the open journal note to its week
+  useEffect(() => {
+    if (selectedDate) setAnchor(selectedDate);
+  }, [selectedDate]);
+
+  const week = getJournalWeek(anchor);
+  const withNotes = new Set(journalDates);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase text-muted-foreground">
+          Journal · {formatJournalDay(week[3]).month}
+        </span>
+        <div className="flex items-center">
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setAnchor(shiftJournalDate(anchor, -7))} title="Previous week">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setAnchor(today)}>
+            This week
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setAnchor(shiftJournalDate(anchor, 7))} title="Next week">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-7 gap-1">
+        {week.map(date => {
+          const { weekday, day } = formatJournalDay(date);
+          const hasNote = withNotes.has(date);
+          return (
+            <button
+              key={date}
+              onClick={() => onOpen(date)}
+              title={hasNote ? `Open the journal for ${date}` : `Start a journal note for ${date}`}
+              className={`flex flex-col items-center rounded-md py-1 text-xs transition-colors ${
+                date === selectedDate
+                  ? "bg-primary text-primary-foreground"
+                  : date === today
+                    ? "border border-primary"
+                    : "hover:bg-muted"
+              } ${hasNote || date === selectedDate ? "" : "text-muted-foreground"}`}
+            >
+              <span>{weekday}</span>
+              <span className="font-medium">{day}</span>
+              <span className={`h-1 w-1 rounded-full ${hasNote ? (date === selectedDate ? "bg-primary-foreground" : "bg-primary") : ""}`} />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
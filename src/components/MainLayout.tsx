@@ -1,16 +1,34 @@
-import { ReactNode, useState } from "react";
+import { ReactNode, useEffect, useState } from "react";
 import { Search, Menu } from "lucide-react";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "./AppSidebar";
-import { Input } from "@/components/ui/input";
+import { CommandPalette } from "./CommandPalette";
+import { WorkspaceBackupDialog } from "./WorkspaceBackupDialog";
 import { Button } from "@/components/ui/button";
+import { useReminderScheduler } from "@/hooks/use-reminder-scheduler";
+import { useServiceWorkerNavigation } from "@/hooks/use-service-worker-navigation";
 
 interface MainLayoutProps {
   children: ReactNode;
 }
 
 export function MainLayout({ children }: MainLayoutProps) {
-  const [searchQuery, setSearchQuery] = useState("");
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  useReminderScheduler();
+  useServiceWorkerNavigation();
+
+  // Ctrl/Cmd+K toggles the command palette from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
 
   return (
     <SidebarProvider>
@@ -30,16 +48,18 @@ export function MainLayout({ children }: MainLayoutProps) {
               </div>
               
               <div className="flex items-center gap-4">
-                <div className="relative max-w-sm">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    type="text"
-                    placeholder="Search tools..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-9 w-full md:w-[300px]"
-                  />
-                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => setPaletteOpen(true)}
+                  className="relative justify-start pl-9 w-full md:w-[300px] text-muted-foreground font-normal"
+                >
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4" />
+                  Search tools and content...
+                  <kbd className="pointer-events-none ml-auto hidden sm:inline-flex h-5 items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium">
+                    <span className="text-xs">⌘</span>K
+                  </kbd>
+                </Button>
+                <WorkspaceBackupDialog />
               </div>
             </div>
           </header>
@@ -50,6 +70,8 @@ export function MainLayout({ children }: MainLayoutProps) {
           </main>
         </div>
       </div>
+
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} />
     </SidebarProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,329 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Bold,
+  Code,
+  Columns2,
+  Eye,
+  Heading2,
+  Italic,
+  Link,
+  List,
+  ListChecks,
+  ListOrdered,
+  Paperclip,
+  Pencil,
+  Quote,
+  SquareCode,
+  Strikethrough,
+  Table,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MarkdownPreview } from "@/components/MarkdownPreview";
+import { toggleTaskItem } from "@/lib/markdown";
+import { getWikiLinkQuery, normalizeTitle } from "@/lib/wiki-links";
+import type { NoteAttachment } from "@/lib/stores";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  // Titles offered when typing a [[wiki link]]
+  noteTitles?: string[];
+  // Focus the editor with the cursor here when it opens
+  initialCursor?: number | null;
+  attachments?: NoteAttachment[];
+  // Store pasted or dropped files, returning the Markdown that links them
+  onAddFiles?: (files: File[]) => string[];
+}
+
+type EditorMode = "write" | "split" | "preview";
+
+type Edit =
+  | { kind: "wrap"; before: string; after: string; placeholder: string }
+  | { kind: "prefix"; prefix: string }
+  | { kind: "block"; text: string };
+
+const TABLE_TEMPLATE = "| Column | Column |\n| ------ | ------ |\n| Cell   | Cell   |";
+
+const TOOLBAR: { label: string; icon: typeof Bold; edit: Edit; shortcut?: string }[] = [
+  { label: "Heading", icon: Heading2, edit: { kind: "prefix", prefix: "## " } },
+  { label: "Bold", icon: Bold, edit: { kind: "wrap", before: "**", after: "**", placeholder: "bold text" }, shortcut: "b" },
+  { label: "Italic", icon: Italic, edit: { kind: "wrap", before: "_", after: "_", placeholder: "italic text" }, shortcut: "i" },
+  { label: "Strikethrough", icon: Strikethrough, edit: { kind: "wrap", before: "~~", after: "~~", placeholder: "text" } },
+  { label: "Link", icon: Link, edit: { kind: "wrap", before: "[", after: "](https://)", placeholder: "link text" }, shortcut: "k" },
+  { label: "Inline code", icon: Code, edit: { kind: "wrap", before: "`", after: "`", placeholder: "code" } },
+  { label: "Bulleted list", icon: List, edit: { kind: "prefix", prefix: "- " } },
+  { label: "Numbered list", icon: ListOrdered, edit: { kind: "prefix", prefix: "1. " } },
+  { label: "Task list", icon: ListChecks, edit: { kind: "prefix", prefix: "- [ ] " } },
+  { label: "Quote", icon: Quote, edit: { kind: "prefix", prefix: "> " } },
+  { label: "Code block", icon: SquareCode, edit: { kind: "wrap", before: "```\n", after: "\n```", placeholder: "code" } },
+  { label: "Table", icon: Table, edit: { kind: "block", text: TABLE_TEMPLATE } },
+];
+
+const MODES: { value: EditorMode; label: string; icon: typeof Bold }[] = [
+  { value: "write", label: "Write", icon: Pencil },
+  { value: "split", label: "Split", icon: Columns2 },
+  { value: "preview", label: "Preview", icon: Eye },
+];
+
+// Apply a toolbar edit to the selection, returning the new text and the
+// range to select afterwards
+function applyEdit(value: string, start: number, end: number, edit: Edit): [string, number, number] {
+  const selected = value.slice(start, end);
+
+  if (edit.kind === "wrap") {
+    const text = selected || edit.placeholder;
+    const next = value.slice(0, start) + edit.before + text + edit.after + value.slice(end);
+    return [next, start + edit.before.length, start + edit.before.length + text.length];
+  }
+
+  if (edit.kind === "block") {
+    // Blocks need blank lines around them to be parsed as such
+    const before = start === 0 || value.slice(0, start).endsWith("\n\n") ? "" : value[start - 1] === "\n" ? "\n" : "\n\n";
+    const next = value.slice(0, start) + before + edit.text + "\n" + value.slice(end);
+    const blockStart = start + before.length;
+    return [next, blockStart, blockStart + edit.text.length];
+  }
+
+  // Prefix every line the selection touches
+  const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+  const lines = value.slice(lineStart, end).split("\n");
+  const prefixed = lines.map((line) => edit.prefix + line).join("\n");
+  const next = value.slice(0, lineStart) + prefixed + value.slice(end);
+  return [next, start + edit.prefix.length, end + edit.prefix.length * lines.length];
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export function MarkdownEditor({ value, onChange, placeholder, noteTitles, initialCursor, attachments, onAddFiles }: MarkdownEditorProps) {
+  const [mode, setMode] = useState<EditorMode>("split");
+  const [linkQuery, setLinkQuery] = useState<{ start: number; query: string } | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (initialCursor === null || initialCursor === undefined) return;
+    textareaRef.current?.focus();
+    textareaRef.current?.setSelectionRange(initialCursor, initialCursor);
+  }, [initialCursor]);
+
+  const suggestions = linkQuery && noteTitles
+    ? noteTitles
+        .filter(title => normalizeTitle(title).includes(normalizeTitle(linkQuery.query)))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateLinkQuery = (textarea: HTMLTextAreaElement) => {
+    const query =
+      textarea.selectionStart === textarea.selectionEnd
+        ? getWikiLinkQuery(textarea.value, textarea.selectionStart)
+        : null;
+    setLinkQuery(query);
+    if (query?.query !== linkQuery?.query) setActiveSuggestion(0);
+  };
+
+  // Complete the link being typed, closing it unless it already is
+  const insertLink = (title: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !linkQuery) return;
+
+    const after = value.slice(textarea.selectionStart);
+    const next = value.slice(0, linkQuery.start) + title + (after.startsWith("]]") ? "" : "]]") + after;
+    const cursor = linkQuery.start + title.length + 2;
+    onChange(next);
+    setLinkQuery(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const runEdit = (edit: Edit) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const [next, selectionStart, selectionEnd] = applyEdit(value, textarea.selectionStart, textarea.selectionEnd, edit);
+    onChange(next);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart, selectionEnd);
+    });
+  };
+
+  // Replace the selection with links to the given files
+  const addFiles = (files: File[]) => {
+    const textarea = textareaRef.current;
+    if (!onAddFiles || files.length === 0) return;
+
+    const links = onAddFiles(files);
+    if (links.length === 0) return;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const text = links.join("\n");
+    onChange(value.slice(0, start) + text + value.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setActiveSuggestion(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === "Enter" || event.key === "Tab") {
+        event.preventDefault();
+        insertLink(suggestions[Math.min(activeSuggestion, suggestions.length - 1)]);
+        return;
+      }
+      if (event.key === "Escape") {
+        event.preventDefault();
+        setLinkQuery(null);
+        return;
+      }
+    }
+
+    if (!(event.ctrlKey || event.metaKey)) return;
+    const item = TOOLBAR.find((tool) => tool.shortcut === event.key.toLowerCase());
+    if (item) {
+      event.preventDefault();
+      runEdit(item.edit);
+    }
+  };
+
+  return (
+    <div className="flex flex-1 flex-col gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {onAddFiles && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                onChange={(e) => {
+                  addFiles(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+                className="hidden"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={mode === "preview"}
+                title="Attach files (or paste and drop them)"
+              >
+                <Paperclip className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {TOOLBAR.map(({ label, icon: Icon, edit, shortcut }) => (
+            <Button
+              key={label}
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => runEdit(edit)}
+              disabled={mode === "preview"}
+              title={shortcut ? `${label} (Ctrl+${shortcut.toUpperCase()})` : label}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {MODES.map(({ value: option, label, icon: Icon }) => (
+            <Button
+              key={option}
+              type="button"
+              variant={mode === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setMode(option)}
+            >
+              <Icon className="h-4 w-4 mr-1" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`grid flex-1 gap-4 ${mode === "split" ? "md:grid-cols-2" : "grid-cols-1"}`}>
+        {mode !== "preview" && (
+          <div className="relative flex">
+            <Textarea
+              ref={textareaRef}
+              placeholder={placeholder}
+              value={value}
+              onChange={(e) => {
+                onChange(e.target.value);
+                updateLinkQuery(e.target);
+              }}
+              onKeyDown={handleKeyDown}
+              onSelect={(e) => updateLinkQuery(e.currentTarget)}
+              onBlur={() => setLinkQuery(null)}
+              onPaste={(e) => {
+                const files = Array.from(e.clipboardData.files);
+                if (!onAddFiles || files.length === 0) return;
+                e.preventDefault();
+                addFiles(files);
+              }}
+              onDragOver={(e) => {
+                if (onAddFiles && e.dataTransfer.types.includes("Files")) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                const files = Array.from(e.dataTransfer.files);
+                if (!onAddFiles || files.length === 0) return;
+                e.preventDefault();
+                addFiles(files);
+              }}
+              className="min-h-[300px] flex-1 resize-none font-mono text-sm"
+            />
+            {suggestions.length > 0 && (
+              <div className="absolute inset-x-2 bottom-2 z-10 rounded-md border bg-popover p-1 shadow-md">
+                <p className="px-2 py-1 text-xs text-muted-foreground">Link to note</p>
+                {suggestions.map((title, index) => (
+                  <button
+                    key={title}
+                    type="button"
+                    // Keep focus in the textarea so the cursor position survives
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => insertLink(title)}
+                    className={`block w-full truncate rounded-sm px-2 py-1 text-left text-sm ${
+                      index === activeSuggestion ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+                    }`}
+                  >
+                    {title}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        {mode !== "write" && (
+          <div className="min-h-[300px] overflow-y-auto rounded-md border p-3">
+            {value.trim() ? (
+              <MarkdownPreview
+                content={value}
+                noteTitles={noteTitles}
+                attachments={attachments}
+                onToggleTask={(index) => onChange(toggleTaskItem(value, index))}
+              />
+            ) : (
+              <p className="text-sm italic text-muted-foreground">Nothing to preview yet.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import "highlight.js/styles/github-dark.css";
+import { useObjectUrls } from "@/hooks/use-object-urls";
+import { renderMarkdown } from "@/lib/markdown";
+import type { NoteAttachment } from "@/lib/stores";
+
+interface MarkdownPreviewProps {
+  content: string;
+  // Called with the checkbox's position when a task item is clicked;
+  // without it the checkboxes are read-only
+  onToggleTask?: (index: number) => void;
+  // Existing note titles; wiki links to anything else are shown as missing
+  noteTitles?: string[];
+  // Called with the target title when a [[wiki link]] is clicked
+  onOpenLink?: (title: string) => void;
+  // Files the content may refer to through attachment: links
+  attachments?: NoteAttachment[];
+  className?: string;
+}
+
+const NO_ATTACHMENTS: NoteAttachment[] = [];
+
+export function MarkdownPreview({
+  content,
+  onToggleTask,
+  noteTitles,
+  onOpenLink,
+  attachments = NO_ATTACHMENTS,
+  className = "",
+}: MarkdownPreviewProps) {
+  const blobs = useMemo(() => attachments.map(attachment => attachment.blob), [attachments]);
+  const getUrl = useObjectUrls(blobs);
+
+  const html = useMemo(() => {
+    const byId = new Map(attachments.map(attachment => [attachment.id, attachment]));
+    return renderMarkdown(content, {
+      noteTitles,
+      resolveAttachment: (id) => {
+        const attachment = byId.get(id);
+        if (!attachment) return undefined;
+        const { name, type, size, blob } = attachment;
+        return { name, type, size, url: getUrl(blob) };
+      },
+    });
+  }, [content, noteTitles, attachments, getUrl]);
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+
+    const wikiLink = target.closest<HTMLElement>("a.wiki-link");
+    if (wikiLink) {
+      event.preventDefault();
+      onOpenLink?.(wikiLink.dataset.noteTitle ?? "");
+      return;
+    }
+
+    if (!(target instanceof HTMLInputElement) || !target.classList.contains("task-checkbox")) return;
+
+    if (!onToggleTask) {
+      event.preventDefault();
+      return;
+    }
+    const checkboxes = Array.from(event.currentTarget.querySelectorAll("input.task-checkbox"));
+    onToggleTask(checkboxes.indexOf(target));
+  };
+
+  return (
+    <div
+      className={`prose prose-sm max-w-none dark:prose-invert prose-pre:p-0 prose-pre:bg-transparent [&_pre_code]:rounded-md [&_li:has(>input)]:list-none [&_a.wiki-link-missing]:text-muted-foreground [&_a.wiki-link-missing]:decoration-dashed [&_a.attachment-chip]:inline-flex [&_a.attachment-chip]:items-center [&_a.attachment-chip]:gap-1 [&_a.attachment-chip]:rounded-md [&_a.attachment-chip]:border [&_a.attachment-chip]:bg-muted [&_a.attachment-chip]:px-2 [&_a.attachment-chip]:no-underline [&_.attachment-size]:text-xs [&_.attachment-size]:text-muted-foreground [&_.attachment-missing]:text-destructive ${className}`}
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
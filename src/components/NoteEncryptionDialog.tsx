@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { Lock, LockOpen, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60];
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface NoteUnlockFormProps {
+  // Resolves false when the passphrase is wrong
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+export function NoteUnlockForm({ onUnlock }: NoteUnlockFormProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    const unlocked = await onUnlock(passphrase);
+    setIsUnlocking(false);
+    if (unlocked) {
+      setPassphrase("");
+      setError("");
+    } else {
+      setError("That passphrase doesn't unlock it.");
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        <Button type="submit" disabled={!passphrase || isUnlocking}>
+          <LockOpen className="h-4 w-4 mr-1" />
+          {isUnlocking ? "Unlocking..." : "Unlock"}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </form>
+  );
+}
+
+interface NoteEncryptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: "note" | "notebook";
+  name: string;
+  encrypted: boolean;
+  locked: boolean;
+  // The notebook whose encryption covers this note, if any
+  inheritedFrom?: string;
+  autoLockMinutes: number;
+  onAutoLockMinutesChange: (minutes: number) => void;
+  onEncrypt: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onRemoveEncryption: () => void;
+  onLock: () => void;
+}
+
+export function NoteEncryptionDialog({
+  open,
+  onOpenChange,
+  kind,
+  name,
+  encrypted,
+  locked,
+  inheritedFrom,
+  autoLockMinutes,
+  onAutoLockMinutesChange,
+  onEncrypt,
+  onUnlock,
+  onRemoveEncryption,
+  onLock,
+}: NoteEncryptionDialogProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isEncrypting, setIsEncrypting] = useState(false);
+
+  const tooShort = passphrase.length < MIN_PASSPHRASE_LENGTH;
+  const mismatch = confirmation !== "" && confirmation !== passphrase;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    onOpenChange(nextOpen);
+    if (!nextOpen) {
+      setPassphrase("");
+      setConfirmation("");
+    }
+  };
+
+  const encrypt = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (tooShort || passphrase !== confirmation) return;
+    setIsEncrypting(true);
+    try {
+      await onEncrypt(passphrase);
+      handleOpenChange(false);
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            {encrypted ? `Encrypted ${kind}` : `Encrypt ${kind}`}
+          </DialogTitle>
+          <DialogDescription>{name}</DialogDescription>
+        </DialogHeader>
+
+        {!encrypted ? (
+          <form onSubmit={encrypt} className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {kind === "note"
+                ? "The note's content and tags are encrypted with your passphrase; its title stays visible."
+                : "Every note in this notebook and the notebooks inside it is encrypted with your passphrase, as are notes added later. Titles stay visible."}{" "}
+              Note history is deleted. Attachments are encrypted too, though their file names stay visible.
+            </p>
+            <p className="text-sm font-medium text-destructive">
+              There is no way to recover a forgotten passphrase.
+            </p>
+            <Input
+              type="password"
+              autoFocus
+              autoComplete="new-password"
+              placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            <Input
+              type="password"
+              autoComplete="new-password"
+              placeholder="Repeat the passphrase"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+            {mismatch && <p className="text-sm text-destructive">The passphrases don't match.</p>}
+            <Button type="submit" className="w-full" disabled={tooShort || passphrase !== confirmation || isEncrypting}>
+              <Lock className="h-4 w-4 mr-1" />
+              {isEncrypting ? "Encrypting..." : "Encrypt"}
+            </Button>
+          </form>
+        ) : locked ? (
+          <NoteUnlockForm onUnlock={onUnlock} />
+        ) : inheritedFrom ? (
+          <p className="text-sm text-muted-foreground">
+            This note is encrypted as part of the notebook "{inheritedFrom}". Manage its encryption from the notebook.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Unlocked for now. Removing the encryption stores the {kind === "note" ? "note" : "notebook's notes"} as
+              plain text again.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={onRemoveEncryption}>
+                <ShieldOff className="h-4 w-4 mr-1" />
+                Remove Encryption
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => {
+                  onLock();
+                  handleOpenChange(false);
+                }}
+              >
+                <Lock className="h-4 w-4 mr-1" />
+                Lock Now
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-center justify-between gap-2 border-t pt-3 text-sm">
+          <span className="text-muted-foreground">Lock unlocked notes after</span>
+          <select
+            value={autoLockMinutes}
+            onChange={(e) => onAutoLockMinutesChange(Number(e.target.value))}
+            className="input-field w-auto"
+          >
+            {AUTO_LOCK_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes} minute{minutes === 1 ? "" : "s"} idle
+              </option>
+            ))}
+          </select>
+        </label>
+      </DialogContent>
+    </Dialog>
+  );
+}
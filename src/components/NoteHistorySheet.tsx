@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { diffLines } from "@/lib/note-history";
+import type { Note, NoteHistorySettings, NoteRevision } from "@/lib/stores";
+
+interface NoteHistorySheetProps {
+  note: Note;
+  // The note's revisions, newest first
+  revisions: NoteRevision[];
+  settings: NoteHistorySettings;
+  onSettingsChange: (settings: NoteHistorySettings) => void;
+  onRestore: (revision: NoteRevision) => void;
+}
+
+const DIFF_STYLES = {
+  same: { sign: " ", className: "" },
+  added: { sign: "+", className: "bg-green-500/15 text-green-700 dark:text-green-400" },
+  removed: { sign: "-", className: "bg-red-500/15 text-red-700 dark:text-red-400" },
+};
+
+const formatSavedAt = (savedAt: string) => new Date(savedAt).toLocaleString();
+
+export function NoteHistorySheet({ note, revisions, settings, onSettingsChange, onRestore }: NoteHistorySheetProps) {
+  const [open, setOpen] = useState(false);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  const from = revisions.find(revision => revision.id === fromId);
+  const to = revisions.find(revision => revision.id === toId);
+
+  const diff = useMemo(() => (from && to ? diffLines(from.content, to.content) : []), [from, to]);
+  const added = diff.filter(line => line.kind === "added").length;
+  const removed = diff.filter(line => line.kind === "removed").length;
+
+  // Clicking a revision compares it with the one saved before it
+  const selectRevision = (index: number) => {
+    setToId(revisions[index]?.id ?? null);
+    setFromId(revisions[index + 1]?.id ?? null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    // Start by showing what the latest save changed
+    if (nextOpen) selectRevision(0);
+  };
+
+  const revisionLabel = (revision: NoteRevision, index: number) =>
+    `${formatSavedAt(revision.savedAt)}${index === 0 ? " (latest)" : ""}`;
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button size="sm" variant="outline" title="Version history">
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>History of "{note.title}"</SheetTitle>
+          <SheetDescription>Every save is kept as a revision. Pick two to compare, or restore an old one.</SheetDescription>
+        </SheetHeader>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions yet. One is recorded each time you save.</p>
+        ) : (
+          <div className="grid flex-1 min-h-0 grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+            <div className="space-y-2 overflow-y-auto">
+              {revisions.map((revision, index) => (
+                <div
+                  key={revision.id}
+                  className={`rounded-lg border p-2 text-sm cursor-pointer transition-colors ${
+                    revision.id === toId ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                  }`}
+                  onClick={() => selectRevision(index)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{formatSavedAt(revision.savedAt)}</span>
+                    {index > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        title="Restore this revision"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRestore(revision);
+                          setOpen(false);
+                        }}
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{revision.title}</p>
+                  <div className="flex gap-1 mt-1">
+                    {index === 0 && <Badge variant="secondary" className="text-xs">Latest</Badge>}
+                    {revision.restoredFrom && (
+                      <Badge variant="outline" className="text-xs">
+                        Restored from {new Date(revision.restoredFrom).toLocaleDateString()}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex min-h-0 flex-col gap-2">
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <label className="space-y-1">
+                  <span className="text-muted-foreground">From</span>
+                  <select
+                    value={fromId ?? ""}
+                    onChange={(e) => setFromId(e.target.value || null)}
+                    className="input-field"
+                  >
+                    <option value="">Choose a revision</option>
+                    {revisions.map((revision, index) => (
+                      <option key={revision.id} value={revision.id}>
+                        {revisionLabel(revision, index)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="text-muted-foreground">To</span>
+                  <select
+                    value={toId ?? ""}
+                    onChange={(e) => setToId(e.target.value || null)}
+                    className="input-field"
+                  >
+                    {revisions.map((revision, index) => (
+                      <option key={revision.id} value={revision.id}>
+                        {revisionLabel(revision, index)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {!from || !to ? (
+                <p className="text-sm text-muted-foreground">
+                  {revisions.length === 1 ? "This is the only revision so far." : "Choose a revision to compare with."}
+                </p>
+              ) : (
+                <>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-green-600">+{added}</span>
+                    <span className="text-red-600">-{removed}</span>
+                    {from.title !== to.title && (
+                      <span className="text-muted-foreground truncate">
+                        Title: "{from.title}" → "{to.title}"
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex-1 overflow-auto rounded-md border bg-muted/30 font-mono text-xs">
+                    {added === 0 && removed === 0 ? (
+                      <p className="p-3 text-muted-foreground">The content is identical.</p>
+                    ) : (
+                      diff.map((line, index) => (
+                        <div key={index} className={`whitespace-pre-wrap px-3 ${DIFF_STYLES[line.kind].className}`}>
+                          <span className="select-none opacity-60">{DIFF_STYLES[line.kind].sign} </span>
+                          {line.text || " "}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4 text-sm">
+          <h3 className="font-medium">Keep</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={settings.retention}
+              onChange={(e) =>
+                onSettingsChange({ ...settings, retention: e.target.value as NoteHistorySettings["retention"] })
+              }
+              className="input-field w-auto"
+            >
+              <option value="all">Every revision</option>
+              <option value="last">The last N revisions</option>
+              <option value="thin">Recent revisions, thinned out over time</option>
+            </select>
+            {settings.retention === "last" && (
+              <Input
+                type="number"
+                min={1}
+                value={settings.keepLast}
+                onChange={(e) => {
+                  const keepLast = parseInt(e.target.value);
+                  if (keepLast > 0) onSettingsChange({ ...settings, keepLast });
+                }}
+                className="h-9 w-24"
+              />
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {settings.retention === "thin"
+              ? "Keeps everything from the last day, one revision per day for a month, then one per week."
+              : "Applies to every note."}{" "}
+            Revisions outside the limit are removed right away.
+          </p>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
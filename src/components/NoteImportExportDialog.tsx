@@ -0,0 +1,170 @@
+import { useRef, useState } from "react";
+import { Download, FileText, FolderOpen, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile, exportNotesZip, importMarkdownFiles, type ImportedNotes } from "@/lib/note-export";
+import type { Note, NoteAttachment } from "@/lib/stores";
+
+interface NoteImportExportDialogProps {
+  // The notes to export, usually those in the current view
+  notes: Note[];
+  attachments: NoteAttachment[];
+  onImport: (imported: ImportedNotes) => void;
+}
+
+export function NoteImportExportDialog({ notes, attachments, onImport }: NoteImportExportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [imported, setImported] = useState<ImportedNotes | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setImported(null);
+    [fileInputRef.current, folderInputRef.current].forEach(input => {
+      if (input) input.value = "";
+    });
+  };
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      downloadFile(await exportNotesZip(notes, attachments));
+    } catch {
+      toast({
+        title: "Export Failed",
+        description: "The notes could not be packed into a zip.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) return;
+
+    setIsWorking(true);
+    try {
+      setImported(await importMarkdownFiles(files));
+    } catch {
+      toast({
+        title: "Import Failed",
+        description: "The files could not be read. Zips must be standard .zip archives.",
+        variant: "destructive",
+      });
+      reset();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (!imported || imported.notes.length === 0) return;
+    onImport(imported);
+    toast({
+      title: "Notes Imported",
+      description: `${imported.notes.length} note(s) and ${imported.attachments.length} attachment(s) added.`,
+    });
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" title="Import & export">
+          <FileText className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import & Export Notes</DialogTitle>
+          <DialogDescription>
+            Notes travel as Markdown files with their title, tags and dates in YAML front matter. Attachments go in
+            an attachments folder alongside.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 border rounded-lg p-4">
+          <h3 className="font-medium">Export</h3>
+          <p className="text-sm text-muted-foreground">{notes.length} note(s) in the current view, as a zip.</p>
+          <Button onClick={handleExport} disabled={notes.length === 0 || isWorking}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Zip
+          </Button>
+        </div>
+
+        <div className="space-y-3 border rounded-lg p-4">
+          <h3 className="font-medium">Import</h3>
+          <p className="text-sm text-muted-foreground">
+            Pick .md files, a zip of them, or a whole folder. Images and files the notes link to are imported as
+            attachments.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".md,.markdown,.zip,text/markdown,application/zip"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <input
+            ref={(input) => {
+              folderInputRef.current = input;
+              input?.setAttribute("webkitdirectory", "");
+            }}
+            type="file"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isWorking}>
+              <Upload className="h-4 w-4 mr-2" />
+              Choose Files
+            </Button>
+            <Button variant="outline" onClick={() => folderInputRef.current?.click()} disabled={isWorking}>
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Choose Folder
+            </Button>
+          </div>
+          {imported && (
+            <p className="text-sm text-muted-foreground">
+              {imported.notes.length === 0
+                ? "No Markdown files found"
+                : `${imported.notes.length} note(s) and ${imported.attachments.length} attachment(s) found`}
+            </p>
+          )}
+        </div>
+
+        {imported && (
+          <DialogFooter>
+            <Button variant="outline" onClick={reset}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={imported.notes.length === 0}>
+              Import
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
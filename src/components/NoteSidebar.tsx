@@ -0,0 +1,304 @@
+import { useState } from "react";
+import {
+  Archive,
+  ChevronDown,
+  ChevronRight,
+  FolderClosed,
+  FolderLock,
+  FolderPlus,
+  Hash,
+  Library,
+  Lock,
+  Pencil,
+  Pin,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  buildNotebookTree,
+  buildTagTree,
+  canMoveNotebook,
+  getNotebookSubtree,
+  NOTE_DRAG_TYPE,
+  NOTEBOOK_DRAG_TYPE,
+  type NoteFilter,
+  type NotebookNode,
+  type NoteScope,
+  type TagNode,
+} from "@/lib/notebooks";
+import type { Note, Notebook } from "@/lib/stores";
+
+interface NoteSidebarProps {
+  notes: Note[];
+  notebooks: Notebook[];
+  filter: NoteFilter;
+  onFilterChange: (changes: Partial<NoteFilter>) => void;
+  onNotebooksChange: (notebooks: Notebook[]) => void;
+  // Deleting a notebook also moves its notes, so the page handles it
+  onDeleteNotebook: (notebook: Notebook) => void;
+  onMoveNote: (noteId: string, notebookId: string | undefined) => void;
+  // Moving a notebook can put its notes under encryption, so the page handles it
+  onMoveNotebook: (notebookId: string, parentId: string | undefined) => void;
+  onEncryptNotebook: (notebook: Notebook) => void;
+}
+
+const SCOPES: { value: NoteScope; label: string; icon: typeof Pin }[] = [
+  { value: "all", label: "All notes", icon: Library },
+  { value: "pinned", label: "Pinned", icon: Pin },
+  { value: "archived", label: "Archived", icon: Archive },
+];
+
+const rowClassName = (active: boolean) =>
+  `group flex items-center rounded-md text-sm hover:bg-muted ${active ? "bg-muted font-medium" : ""}`;
+
+export function NoteSidebar({
+  notes,
+  notebooks,
+  filter,
+  onFilterChange,
+  onNotebooksChange,
+  onDeleteNotebook,
+  onMoveNote,
+  onMoveNotebook,
+  onEncryptNotebook,
+}: NoteSidebarProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  // The notebook id being dragged over; "root" for the top level
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const activeNotes = notes.filter(note => !note.archived);
+  const scopeCounts: Record<NoteScope, number> = {
+    all: activeNotes.length,
+    pinned: activeNotes.filter(note => note.pinned).length,
+    archived: notes.length - activeNotes.length,
+  };
+
+  const notebookTree = buildNotebookTree(notebooks);
+  const tagTree = buildTagTree(activeNotes);
+
+  const countInNotebook = (notebookId: string) => {
+    const subtree = getNotebookSubtree(notebooks, notebookId);
+    return activeNotes.filter(note => note.notebookId && subtree.has(note.notebookId)).length;
+  };
+
+  const toggleCollapsed = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const createNotebook = (parentId?: string) => {
+    const notebook: Notebook = {
+      id: crypto.randomUUID(),
+      name: "New notebook",
+      parentId,
+      createdAt: new Date().toISOString(),
+    };
+    onNotebooksChange([...notebooks, notebook]);
+    if (parentId) setCollapsed(prev => new Set([...prev].filter(key => key !== parentId)));
+    setRenamingId(notebook.id);
+    setRenameValue(notebook.name);
+  };
+
+  const finishRename = () => {
+    const name = renameValue.trim();
+    if (renamingId && name) {
+      onNotebooksChange(notebooks.map(notebook => (notebook.id === renamingId ? { ...notebook, name } : notebook)));
+    }
+    setRenamingId(null);
+  };
+
+  const handleDragOver = (event: React.DragEvent, target: string) => {
+    const types = event.dataTransfer.types;
+    if (!types.includes(NOTE_DRAG_TYPE) && !types.includes(NOTEBOOK_DRAG_TYPE)) return;
+    event.preventDefault();
+    setDropTarget(target);
+  };
+
+  const handleDrop = (event: React.DragEvent, parentId: string | undefined) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const noteId = event.dataTransfer.getData(NOTE_DRAG_TYPE);
+    if (noteId) {
+      onMoveNote(noteId, parentId);
+      return;
+    }
+
+    const notebookId = event.dataTransfer.getData(NOTEBOOK_DRAG_TYPE);
+    if (notebookId && canMoveNotebook(notebooks, notebookId, parentId)) {
+      onMoveNotebook(notebookId, parentId);
+    }
+  };
+
+  const renderNotebook = (node: NotebookNode) => {
+    const { notebook } = node;
+    const isCollapsed = collapsed.has(notebook.id);
+
+    return (
+      <div key={notebook.id}>
+        <div
+          draggable={renamingId !== notebook.id}
+          onDragStart={(e) => {
+            e.stopPropagation();
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData(NOTEBOOK_DRAG_TYPE, notebook.id);
+          }}
+          onDragOver={(e) => handleDragOver(e, notebook.id)}
+          onDragLeave={() => setDropTarget(prev => (prev === notebook.id ? null : prev))}
+          onDrop={(e) => handleDrop(e, notebook.id)}
+          className={`${rowClassName(filter.notebookId === notebook.id)} ${dropTarget === notebook.id ? "ring-2 ring-primary" : ""}`}
+          style={{ paddingLeft: `${node.depth * 12}px` }}
+        >
+          <button
+            onClick={() => toggleCollapsed(notebook.id)}
+            className={`p-1 text-muted-foreground ${node.children.length === 0 ? "invisible" : ""}`}
+            title={isCollapsed ? "Expand" : "Collapse"}
+          >
+            {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </button>
+          {renamingId === notebook.id ? (
+            <Input
+              autoFocus
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") finishRename();
+                if (e.key === "Escape") setRenamingId(null);
+              }}
+              className="h-7"
+            />
+          ) : (
+            <>
+              <button
+                onClick={() => onFilterChange({ notebookId: filter.notebookId === notebook.id ? null : notebook.id })}
+                className="flex flex-1 items-center gap-2 truncate py-1.5 pr-1 text-left"
+              >
+                {notebook.encryption ? (
+                  <FolderLock className="h-4 w-4 shrink-0" />
+                ) : (
+                  <FolderClosed className="h-4 w-4 shrink-0" />
+                )}
+                <span className="truncate">{notebook.name}</span>
+              </button>
+              <div className="hidden items-center group-hover:flex">
+                <button onClick={() => createNotebook(notebook.id)} className="p-1 text-muted-foreground hover:text-foreground" title="New notebook inside">
+                  <FolderPlus className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => {
+                    setRenamingId(notebook.id);
+                    setRenameValue(notebook.name);
+                  }}
+                  className="p-1 text-muted-foreground hover:text-foreground"
+                  title="Rename"
+                >
+                  <Pencil className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => onEncryptNotebook(notebook)}
+                  className="p-1 text-muted-foreground hover:text-foreground"
+                  title={notebook.encryption ? "Encryption" : "Encrypt notebook"}
+                >
+                  <Lock className="h-3 w-3" />
+                </button>
+                <button onClick={() => onDeleteNotebook(notebook)} className="p-1 text-muted-foreground hover:text-destructive" title="Delete notebook">
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+              <span className="px-2 text-muted-foreground group-hover:hidden">{countInNotebook(notebook.id)}</span>
+            </>
+          )}
+        </div>
+        {!isCollapsed && node.children.map(renderNotebook)}
+      </div>
+    );
+  };
+
+  const renderTag = (node: TagNode, depth: number) => {
+    const key = `tag:${node.tag}`;
+    const isCollapsed = collapsed.has(key);
+    const active = filter.tag?.toLowerCase() === node.tag.toLowerCase();
+
+    return (
+      <div key={node.tag}>
+        <div className={rowClassName(active)} style={{ paddingLeft: `${depth * 12}px` }}>
+          <button
+            onClick={() => toggleCollapsed(key)}
+            className={`p-1 text-muted-foreground ${node.children.length === 0 ? "invisible" : ""}`}
+            title={isCollapsed ? "Expand" : "Collapse"}
+          >
+            {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </button>
+          <button
+            onClick={() => onFilterChange({ tag: active ? null : node.tag })}
+            className="flex flex-1 items-center gap-2 truncate py-1.5 text-left"
+            title={node.tag}
+          >
+            <Hash className="h-4 w-4 shrink-0" />
+            <span className="truncate">{node.name}</span>
+          </button>
+          <span className="px-2 text-muted-foreground">{node.count}</span>
+        </div>
+        {!isCollapsed && node.children.map(child => renderTag(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        {SCOPES.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => onFilterChange({ scope: value })}
+            className={`w-full flex items-center justify-between rounded-md px-2 py-1.5 text-sm hover:bg-muted ${filter.scope === value ? "bg-muted font-medium" : ""}`}
+          >
+            <span className="flex items-center gap-2">
+              <Icon className="h-4 w-4" />
+              {label}
+            </span>
+            <span className="text-muted-foreground">{scopeCounts[value]}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div
+          onDragOver={(e) => handleDragOver(e, "root")}
+          onDragLeave={() => setDropTarget(prev => (prev === "root" ? null : prev))}
+          onDrop={(e) => handleDrop(e, undefined)}
+          className={`flex items-center justify-between rounded-md px-2 ${dropTarget === "root" ? "ring-2 ring-primary" : ""}`}
+          title="Drop here to move out of any notebook"
+        >
+          <p className="text-xs font-semibold uppercase text-muted-foreground">Notebooks</p>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => createNotebook()} title="New notebook">
+            <FolderPlus className="h-4 w-4" />
+          </Button>
+        </div>
+        {notebookTree.length === 0 ? (
+          <p className="px-2 text-sm text-muted-foreground">None yet</p>
+        ) : (
+          notebookTree.map(renderNotebook)
+        )}
+      </div>
+
+      {tagTree.length > 0 && (
+        <div className="space-y-1">
+          <p className="px-2 text-xs font-semibold uppercase text-muted-foreground">Tags</p>
+          {tagTree.map(node => renderTag(node, 0))}
+        </div>
+      )}
+    </div>
+  );
+}
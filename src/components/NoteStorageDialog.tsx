@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from "react";
+import { HardDrive, Paperclip, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { formatFileSize, getNoteStorageUsage, getUnusedAttachments } from "@/lib/note-attachments";
+import type { Note, NoteAttachment, NoteRevision } from "@/lib/stores";
+
+interface NoteStorageDialogProps {
+  notes: Note[];
+  revisions: NoteRevision[];
+  attachments: NoteAttachment[];
+  // Anything else that may link attachments, such as templates
+  otherSources: Pick<Note, "content">[];
+  onDeleteAttachments: (ids: string[]) => void;
+  onOpenNote: (note: Note) => void;
+}
+
+export function NoteStorageDialog({
+  notes,
+  revisions,
+  attachments,
+  otherSources,
+  onDeleteAttachments,
+  onOpenNote,
+}: NoteStorageDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  useEffect(() => {
+    if (!open || !navigator.storage?.estimate) return;
+    navigator.storage
+      .estimate()
+      .then(setEstimate)
+      .catch(() => setEstimate(null));
+  }, [open, attachments]);
+
+  const usage = useMemo(
+    () => (open ? getNoteStorageUsage(notes, revisions, attachments) : null),
+    [open, notes, revisions, attachments]
+  );
+  const unused = useMemo(
+    // Encrypted notes' links can't be read, so their attachments always count as used
+    () => {
+      if (!open) return [];
+      const encryptedIds = new Set(notes.filter(note => note.encryption).map(note => note.id));
+      const checkable = attachments.filter(attachment => !encryptedIds.has(attachment.noteId));
+      return getUnusedAttachments(checkable, [...notes, ...revisions, ...otherSources]);
+    },
+    [open, attachments, notes, revisions, otherSources]
+  );
+  const unusedIds = new Set(unused.map(attachment => attachment.id));
+  const unusedBytes = unused.reduce((sum, attachment) => sum + attachment.size, 0);
+  const largest = [...attachments].sort((a, b) => b.size - a.size).slice(0, 20);
+  const noteById = new Map(notes.map(note => [note.id, note]));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" title="Storage usage">
+          <HardDrive className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Notes Storage</DialogTitle>
+          <DialogDescription>What your notes, their history and attachments take up in this browser.</DialogDescription>
+        </DialogHeader>
+
+        {estimate?.quota ? (
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Browser storage used</span>
+              <span className="text-muted-foreground">
+                {formatFileSize(estimate.usage ?? 0)} of {formatFileSize(estimate.quota)}
+              </span>
+            </div>
+            <Progress value={((estimate.usage ?? 0) / estimate.quota) * 100} className="h-2" />
+          </div>
+        ) : null}
+
+        {usage && (
+          <div className="grid grid-cols-3 gap-2 text-center text-sm">
+            {[
+              { label: "Note text", bytes: usage.noteBytes },
+              { label: "History", bytes: usage.revisionBytes },
+              { label: "Attachments", bytes: usage.attachmentBytes },
+            ].map(({ label, bytes }) => (
+              <div key={label} className="rounded-lg border p-3">
+                <p className="font-medium">{formatFileSize(bytes)}</p>
+                <p className="text-xs text-muted-foreground">{label}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {unused.length > 0 && (
+          <div className="flex items-center justify-between gap-2 rounded-lg border p-3 text-sm">
+            <span>
+              {unused.length} attachment(s) no longer linked from anywhere ({formatFileSize(unusedBytes)})
+            </span>
+            <Button size="sm" variant="outline" onClick={() => onDeleteAttachments([...unusedIds])}>
+              Clean Up
+            </Button>
+          </div>
+        )}
+
+        {usage && usage.byNote.length > 0 && (
+          <div className="space-y-1">
+            <h3 className="text-sm font-medium">Notes with the most attachments</h3>
+            {usage.byNote.slice(0, 10).map(({ noteId, bytes, count }) => {
+              const note = noteById.get(noteId);
+              return (
+                <button
+                  key={noteId}
+                  disabled={!note}
+                  onClick={() => {
+                    if (!note) return;
+                    onOpenNote(note);
+                    setOpen(false);
+                  }}
+                  className="flex w-full items-center justify-between rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted disabled:hover:bg-transparent"
+                >
+                  <span className="truncate">{note?.title ?? "Deleted note"}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {count} file(s) · {formatFileSize(bytes)}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium">Largest attachments</h3>
+          {largest.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No attachments yet. Paste or drop files into a note while editing.</p>
+          ) : (
+            largest.map(attachment => (
+              <div key={attachment.id} className="flex items-center gap-2 rounded-md px-2 py-1 text-sm hover:bg-muted">
+                <Paperclip className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{attachment.name}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {noteById.get(attachment.noteId)?.title ?? "Deleted note"}
+                  </p>
+                </div>
+                {unusedIds.has(attachment.id) && <Badge variant="outline">Unused</Badge>}
+                <span className="shrink-0 text-muted-foreground">{formatFileSize(attachment.size)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => onDeleteAttachments([attachment.id])}
+                  title={unusedIds.has(attachment.id) ? "Delete" : "Delete (the note will show it as missing)"}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { Copy, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { buildNotebookTree, flattenNotebookTree, parseTags } from "@/lib/notebooks";
+import { BUILT_IN_TEMPLATES, JOURNAL_TEMPLATE_ID, PLACEHOLDER_HELP } from "@/lib/note-templates";
+import type { JournalSettings, Notebook, NoteTemplate } from "@/lib/stores";
+
+interface NoteTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: NoteTemplate[];
+  onTemplatesChange: (templates: NoteTemplate[]) => void;
+  journalSettings: JournalSettings;
+  onJournalSettingsChange: (settings: JournalSettings) => void;
+  notebooks: Notebook[];
+}
+
+export function NoteTemplatesDialog({
+  open,
+  onOpenChange,
+  templates,
+  onTemplatesChange,
+  journalSettings,
+  onJournalSettingsChange,
+  notebooks,
+}: NoteTemplatesDialogProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Kept as typed so commas and slashes can be entered freely
+  const [tagsInput, setTagsInput] = useState("");
+
+  const selected = templates.find(template => template.id === selectedId) ?? null;
+  const notebookOptions = flattenNotebookTree(buildNotebookTree(notebooks));
+
+  const select = (template: NoteTemplate) => {
+    setSelectedId(template.id);
+    setTagsInput(template.tags.join(", "));
+  };
+
+  const addTemplate = (from?: NoteTemplate) => {
+    const template: NoteTemplate = {
+      id: crypto.randomUUID(),
+      name: from ? `${from.name} (copy)` : "New template",
+      title: from?.title ?? "{{date}}",
+      content: from?.content ?? "{{cursor}}",
+      tags: from?.tags ?? [],
+    };
+    onTemplatesChange([...templates, template]);
+    select(template);
+  };
+
+  const updateSelected = (changes: Partial<NoteTemplate>) => {
+    if (!selected) return;
+    onTemplatesChange(templates.map(template => (template.id === selected.id ? { ...template, ...changes } : template)));
+  };
+
+  const deleteSelected = () => {
+    if (!selected) return;
+    onTemplatesChange(templates.filter(template => template.id !== selected.id));
+    if (journalSettings.templateId === selected.id) {
+      onJournalSettingsChange({ ...journalSettings, templateId: undefined });
+    }
+    setSelectedId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Note Templates</DialogTitle>
+          <DialogDescription>Start new notes from a template. Placeholders are filled in when the note is created.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-4">
+          <div className="space-y-1">
+            <p className="px-2 text-xs font-semibold uppercase text-muted-foreground">Yours</p>
+            {templates.length === 0 && <p className="px-2 text-sm text-muted-foreground">None yet</p>}
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => select(template)}
+                className={`w-full truncate rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted ${selectedId === template.id ? "bg-muted font-medium" : ""}`}
+              >
+                {template.name}
+              </button>
+            ))}
+            <Button variant="outline" size="sm" className="w-full" onClick={() => addTemplate()}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Template
+            </Button>
+
+            <p className="px-2 pt-3 text-xs font-semibold uppercase text-muted-foreground">Built in</p>
+            {BUILT_IN_TEMPLATES.map(template => (
+              <div key={template.id} className="group flex items-center rounded-md text-sm hover:bg-muted">
+                <span className="flex-1 truncate px-2 py-1.5">{template.name}</span>
+                <button
+                  onClick={() => addTemplate(template)}
+                  className="px-2 text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100"
+                  title="Copy to customise"
+                >
+                  <Copy className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {selected ? (
+            <div className="space-y-3">
+              <Input
+                placeholder="Template name"
+                value={selected.name}
+                onChange={(e) => updateSelected({ name: e.target.value })}
+              />
+              <Input
+                placeholder="Note title, e.g. Meeting {{date}}"
+                value={selected.title}
+                onChange={(e) => updateSelected({ title: e.target.value })}
+              />
+              <Input
+                placeholder="Tags (comma separated)"
+                value={tagsInput}
+                onChange={(e) => {
+                  setTagsInput(e.target.value);
+                  updateSelected({ tags: parseTags(e.target.value) });
+                }}
+              />
+              <Textarea
+                placeholder="Template content in Markdown"
+                value={selected.content}
+                onChange={(e) => updateSelected({ content: e.target.value })}
+                className="min-h-48 font-mono text-sm"
+              />
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" onClick={deleteSelected}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete Template
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2 text-sm text-muted-foreground">
+              <p>Pick a template to edit it, or copy a built-in one to customise it.</p>
+              <ul className="space-y-1">
+                {PLACEHOLDER_HELP.map(({ placeholder, description }) => (
+                  <li key={placeholder}>
+                    <code className="rounded bg-muted px-1 font-mono text-foreground">{placeholder}</code> {description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2 border rounded-lg p-4">
+          <h3 className="font-medium">Daily journal</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+            <label className="space-y-1">
+              <span className="text-muted-foreground">Template</span>
+              <select
+                value={journalSettings.templateId ?? JOURNAL_TEMPLATE_ID}
+                onChange={(e) =>
+                  onJournalSettingsChange({
+                    ...journalSettings,
+                    templateId: e.target.value === JOURNAL_TEMPLATE_ID ? undefined : e.target.value,
+                  })
+                }
+                className="input-field"
+              >
+                {[...BUILT_IN_TEMPLATES, ...templates].map(template => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-muted-foreground">Notebook</span>
+              <select
+                value={journalSettings.notebookId ?? ""}
+                onChange={(e) => onJournalSettingsChange({ ...journalSettings, notebookId: e.target.value || undefined })}
+                className="input-field"
+              >
+                <option value="">No notebook</option>
+                {notebookOptions.map(({ notebook, depth }) => (
+                  <option key={notebook.id} value={notebook.id}>
+                    {"\u00a0\u00a0".repeat(depth)}{notebook.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMemo, useState } from "react";
+import { CalendarDays, Clock, Flag, Folder, Hash, Repeat, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { describeRecurrence } from "@/lib/recurrence";
+import { parseQuickEntry, type ParsedEntry } from "@/lib/quick-entry";
+
+type QuickEntryField = "date" | "time" | "recurrence" | "priority" | "tags" | "project";
+
+interface QuickEntryInputProps {
+  placeholder: string;
+  // The parsed parts the target tool can store; others aren't previewed
+  fields: QuickEntryField[];
+  // Return false to keep the text, e.g. when a required part is missing
+  onSubmit: (entry: ParsedEntry) => boolean | void;
+}
+
+export function QuickEntryInput({ placeholder, fields, onSubmit }: QuickEntryInputProps) {
+  const [text, setText] = useState("");
+  const parsed = useMemo(() => (text.trim() ? parseQuickEntry(text) : null), [text]);
+
+  const submit = () => {
+    if (!parsed?.title) return;
+    if (onSubmit(parsed) !== false) setText("");
+  };
+
+  const shows = (field: QuickEntryField) => fields.includes(field);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Sparkles className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={placeholder}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submit()}
+            className="pl-9"
+          />
+        </div>
+        <Button onClick={submit} disabled={!parsed?.title}>
+          Add
+        </Button>
+      </div>
+
+      {parsed && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Preview:</span>
+          <span className="font-medium">{parsed.title || "(no title)"}</span>
+          {shows("date") && parsed.date && (
+            <Badge variant="secondary" className="gap-1">
+              <CalendarDays className="h-3 w-3" />
+              {new Date(`${parsed.date}T00:00`).toLocaleDateString(undefined, {
+                weekday: "short",
+                month: "short",
+                day: "numeric",
+              })}
+            </Badge>
+          )}
+          {shows("time") && parsed.time && (
+            <Badge variant="secondary" className="gap-1">
+              <Clock className="h-3 w-3" />
+              {parsed.time}
+            </Badge>
+          )}
+          {shows("recurrence") && parsed.recurrence && (
+            <Badge variant="secondary" className="gap-1">
+              <Repeat className="h-3 w-3" />
+              {describeRecurrence(parsed.recurrence)}
+              {parsed.repeatFrom === "completion" && " after completion"}
+            </Badge>
+          )}
+          {shows("priority") && parsed.priority && (
+            <Badge variant="secondary" className="gap-1">
+              <Flag className="h-3 w-3" />
+              {parsed.priority}
+            </Badge>
+          )}
+          {shows("project") && parsed.project && (
+            <Badge variant="secondary" className="gap-1">
+              <Folder className="h-3 w-3" />
+              {parsed.project}
+            </Badge>
+          )}
+          {shows("tags") &&
+            parsed.tags?.map((tag) => (
+              <Badge key={tag} variant="outline" className="gap-1">
+                <Hash className="h-3 w-3" />
+                {tag}
+              </Badge>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  createRecurrence,
+  describeRecurrence,
+  formatLocalDateTime,
+  WEEKDAY_LABELS,
+  type Frequency,
+} from "@/lib/recurrence";
+import type { RecurrenceRule } from "@/lib/stores";
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | undefined;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  // The first occurrence; monthly and yearly rules are described relative to it
+  anchor: string;
+  // Limit the choices, e.g. tasks are due on days so can't repeat hourly
+  frequencies?: Frequency[];
+}
+
+const FREQUENCY_OPTIONS: { value: Frequency; label: string; unit?: string }[] = [
+  { value: "hourly", label: "Every few hours", unit: "hour(s)" },
+  { value: "daily", label: "Daily", unit: "day(s)" },
+  { value: "weekdays", label: "Every weekday (Mon-Fri)" },
+  { value: "weekly", label: "Weekly", unit: "week(s)" },
+  { value: "monthly", label: "Monthly", unit: "month(s)" },
+  { value: "yearly", label: "Yearly", unit: "year(s)" },
+];
+
+export function RecurrencePicker({ value, onChange, anchor, frequencies }: RecurrencePickerProps) {
+  const fallbackAnchor = anchor || formatLocalDateTime(new Date());
+  const rule = value ? { ...value, anchor: fallbackAnchor } : undefined;
+  const unit = FREQUENCY_OPTIONS.find((option) => option.value === rule?.frequency)?.unit;
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (rule) onChange({ ...rule, ...changes });
+  };
+
+  const toggleDay = (day: number) => {
+    if (!rule) return;
+    const days = rule.daysOfWeek ?? [];
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day];
+    // A weekly rule needs at least one day
+    if (next.length > 0) update({ daysOfWeek: next });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <select
+          value={rule?.frequency ?? "none"}
+          onChange={(e) =>
+            onChange(e.target.value === "none" ? undefined : createRecurrence(e.target.value as Frequency, fallbackAnchor))
+          }
+          className="input-field"
+        >
+          <option value="none">Does not repeat</option>
+          {FREQUENCY_OPTIONS.filter((option) => !frequencies || frequencies.includes(option.value)).map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        {rule && unit && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Every</span>
+            <Input
+              type="number"
+              min={1}
+              value={rule.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="w-20"
+            />
+            <span className="text-sm text-muted-foreground">{unit}</span>
+          </div>
+        )}
+
+        {rule?.frequency === "monthly" && (
+          <select
+            value={rule.monthlyBy ?? "date"}
+            onChange={(e) => update({ monthlyBy: e.target.value as "date" | "weekday" })}
+            className="input-field"
+          >
+            <option value="date">On the same date</option>
+            <option value="weekday">On the same weekday</option>
+          </select>
+        )}
+      </div>
+
+      {rule?.frequency === "weekly" && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <Button
+              key={label}
+              type="button"
+              size="sm"
+              variant={rule.daysOfWeek?.includes(day) ? "default" : "outline"}
+              onClick={() => toggleDay(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {rule && <p className="text-sm text-muted-foreground">{describeRecurrence(rule)}</p>}
+    </div>
+  );
+}
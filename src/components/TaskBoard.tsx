@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Settings2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TaskSummary } from "@/components/TaskSummary";
+import { useToast } from "@/hooks/use-toast";
+import { getTaskColumn } from "@/lib/tasks";
+import type { BoardColumn, Task } from "@/lib/stores";
+
+interface TaskBoardProps {
+  // Every task, for column counts and WIP limits
+  tasks: Task[];
+  // The tasks matching the current filter; only these get cards
+  visibleTasks: Task[];
+  columns: BoardColumn[];
+  onColumnsChange: (columns: BoardColumn[]) => void;
+  // Place a task in a column, before another card or at the end
+  onMove: (id: string, column: BoardColumn, beforeId?: string) => void;
+}
+
+interface DropTarget {
+  columnId: string;
+  beforeId?: string;
+}
+
+export function TaskBoard({ tasks, visibleTasks, columns, onColumnsChange, onMove }: TaskBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [editingColumns, setEditingColumns] = useState<BoardColumn[] | null>(null);
+  const { toast } = useToast();
+
+  const columnCount = (column: BoardColumn) => tasks.filter(task => getTaskColumn(columns, task).id === column.id).length;
+
+  const drop = (column: BoardColumn) => {
+    const task = tasks.find(t => t.id === draggingId);
+    const target = dropTarget;
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!task || target?.beforeId === task.id) return;
+
+    // Reordering within a column is always fine; entering a full one isn't
+    const entering = getTaskColumn(columns, task).id !== column.id;
+    if (entering && column.wipLimit && columnCount(column) >= column.wipLimit) {
+      toast({
+        title: "Column Full",
+        description: `"${column.name}" is at its limit of ${column.wipLimit} task(s). Finish or move one first.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    onMove(task.id, column, target?.columnId === column.id ? target.beforeId : undefined);
+  };
+
+  const updateColumn = (index: number, changes: Partial<BoardColumn>) => {
+    setEditingColumns(prev => prev && prev.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+  };
+
+  const moveColumn = (index: number, direction: -1 | 1) => {
+    setEditingColumns(prev => {
+      if (!prev || !prev[index + direction]) return prev;
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const saveColumns = () => {
+    if (!editingColumns || editingColumns.some(column => !column.name.trim())) return;
+    onColumnsChange(editingColumns.map(column => ({ ...column, name: column.name.trim() })));
+    setEditingColumns(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => setEditingColumns(columns)}>
+          <Settings2 className="h-4 w-4 mr-2" />
+          Columns
+        </Button>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {columns.map(column => {
+          const cards = visibleTasks
+            .filter(task => getTaskColumn(columns, task).id === column.id)
+            .sort((a, b) => a.order - b.order);
+          const count = columnCount(column);
+          const overLimit = !!column.wipLimit && count > column.wipLimit;
+          const atLimit = !!column.wipLimit && count >= column.wipLimit;
+
+          return (
+            <div
+              key={column.id}
+              onDragOver={(e) => {
+                if (!draggingId) return;
+                e.preventDefault();
+                if (dropTarget?.columnId !== column.id) setDropTarget({ columnId: column.id });
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                drop(column);
+              }}
+              className={`flex w-72 shrink-0 flex-col rounded-lg border bg-muted/40 ${dropTarget?.columnId === column.id ? "ring-2 ring-primary" : ""}`}
+            >
+              <div className="flex items-center justify-between border-b px-3 py-2">
+                <span className="font-medium">{column.name}</span>
+                <Badge variant={overLimit ? "destructive" : atLimit ? "default" : "secondary"}>
+                  {column.wipLimit ? `${count}/${column.wipLimit}` : count}
+                </Badge>
+              </div>
+
+              <div className="flex min-h-24 flex-1 flex-col gap-2 p-2">
+                {cards.map(task => (
+                  <div key={task.id}>
+                    {dropTarget?.columnId === column.id && dropTarget.beforeId === task.id && draggingId !== task.id && (
+                      <div className="mb-2 h-1 rounded bg-primary" />
+                    )}
+                    <div
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move";
+                        e.dataTransfer.setData("text/plain", task.id);
+                        setDraggingId(task.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null);
+                        setDropTarget(null);
+                      }}
+                      onDragOver={(e) => {
+                        if (!draggingId) return;
+                        e.preventDefault();
+                        e.stopPropagation();
+                        if (dropTarget?.beforeId !== task.id) setDropTarget({ columnId: column.id, beforeId: task.id });
+                      }}
+                      className={`cursor-grab rounded-md border bg-card p-3 text-sm shadow-sm active:cursor-grabbing ${draggingId === task.id ? "opacity-50" : ""}`}
+                    >
+                      <TaskSummary task={task} tasks={tasks} />
+                    </div>
+                  </div>
+                ))}
+                {dropTarget?.columnId === column.id && !dropTarget.beforeId && (
+                  <div className="h-1 rounded bg-primary" />
+                )}
+                {cards.length === 0 && dropTarget?.columnId !== column.id && (
+                  <p className="py-4 text-center text-xs text-muted-foreground">Drop tasks here</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={editingColumns !== null} onOpenChange={(open) => !open && setEditingColumns(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Board Columns</DialogTitle>
+            <DialogDescription>
+              Tasks moved into a "done" column are marked completed. Tasks in a removed column move to the first
+              column that fits.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {editingColumns?.map((column, index) => (
+              <div key={column.id} className="flex items-center gap-2">
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => moveColumn(index, -1)}
+                    disabled={index === 0}
+                    className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    title="Move left"
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => moveColumn(index, 1)}
+                    disabled={index === editingColumns.length - 1}
+                    className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    title="Move right"
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </button>
+                </div>
+                <Input
+                  value={column.name}
+                  placeholder="Column name"
+                  onChange={(e) => updateColumn(index, { name: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="WIP"
+                  title="WIP limit (leave empty for none)"
+                  value={column.wipLimit ?? ""}
+                  onChange={(e) => updateColumn(index, { wipLimit: parseInt(e.target.value) > 0 ? parseInt(e.target.value) : undefined })}
+                  className="w-20"
+                />
+                <label className="flex items-center gap-1 text-sm whitespace-nowrap">
+                  <Checkbox checked={column.done} onCheckedChange={(checked) => updateColumn(index, { done: checked === true })} />
+                  Done
+                </label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={editingColumns.length === 1}
+                  onClick={() => setEditingColumns(prev => prev && prev.filter((_, i) => i !== index))}
+                  className="text-destructive hover:text-destructive"
+                  title="Remove column"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setEditingColumns(prev => prev && [...prev, { id: crypto.randomUUID(), name: "", done: false }])
+              }
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Column
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingColumns(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveColumns} disabled={editingColumns?.some(column => !column.name.trim())}>
+              Save Columns
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
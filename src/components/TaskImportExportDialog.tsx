@@ -0,0 +1,193 @@
+import { useMemo, useRef, useState } from "react";
+import { Copy, Download, FileText, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  detectTaskFormat,
+  formatTasks,
+  parseTasks,
+  TASK_FORMATS,
+  type ImportedTask,
+  type TaskFormat,
+} from "@/lib/task-formats";
+import type { Task } from "@/lib/stores";
+
+interface TaskImportExportDialogProps {
+  // The tasks to export, usually those matching the current filter
+  tasks: Task[];
+  onImport: (tasks: ImportedTask[]) => void;
+}
+
+export function TaskImportExportDialog({ tasks, onImport }: TaskImportExportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [taskFormat, setTaskFormat] = useState<TaskFormat>("todo.txt");
+  const [importText, setImportText] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const imported = useMemo(
+    () => (importText.trim() ? parseTasks(importText, taskFormat) : []),
+    [importText, taskFormat]
+  );
+
+  const reset = () => {
+    setImportText("");
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDownload = () => {
+    const { extension, mimeType } = TASK_FORMATS[taskFormat];
+    const blob = new Blob([formatTasks(tasks, taskFormat)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = taskFormat === "todo.txt" ? "todo.txt" : `tasks.${extension}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatTasks(tasks, taskFormat));
+      toast({
+        title: "Copied",
+        description: `${tasks.length} task(s) copied as ${TASK_FORMATS[taskFormat].label}.`,
+      });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Could not access the clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setImportText(text);
+    setTaskFormat(detectTaskFormat(text));
+  };
+
+  const handleImport = () => {
+    if (imported.length === 0) return;
+    onImport(imported);
+    toast({
+      title: "Tasks Imported",
+      description: `${imported.length} task(s) added from ${TASK_FORMATS[taskFormat].label}.`,
+    });
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Import & export">
+          <FileText className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import & Export Tasks</DialogTitle>
+          <DialogDescription>
+            Move tasks in and out as plain text. Projects, tags (as @contexts), due dates, priorities, repeats and
+            dates are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          {(Object.keys(TASK_FORMATS) as TaskFormat[]).map((option) => (
+            <Button
+              key={option}
+              variant={taskFormat === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setTaskFormat(option)}
+            >
+              {TASK_FORMATS[option].label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="space-y-3 border rounded-lg p-4">
+          <h3 className="font-medium">Export</h3>
+          <p className="text-sm text-muted-foreground">
+            {tasks.length} task(s) matching the current filter.
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={handleDownload} disabled={tasks.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+            <Button variant="outline" onClick={handleCopy} disabled={tasks.length === 0}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3 border rounded-lg p-4">
+          <h3 className="font-medium">Import</h3>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.md,.markdown,text/plain,text/markdown"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Choose File
+          </Button>
+          <Textarea
+            placeholder={
+              taskFormat === "todo.txt"
+                ? "(A) 2024-05-01 Call the bank +finances @phone due:2024-05-20"
+                : "- [ ] Clean the garage +home due:2024-05-18\n  - [ ] Sort tools"
+            }
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            className="min-h-32 font-mono text-sm"
+          />
+          {importText.trim() && (
+            <p className="text-sm text-muted-foreground">{imported.length} task(s) found</p>
+          )}
+        </div>
+
+        {importText.trim() && (
+          <DialogFooter>
+            <Button variant="outline" onClick={reset}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={imported.length === 0}>
+              Import
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { TaskSummary } from "@/components/TaskSummary";
+import type { Task } from "@/lib/stores";
+
+interface TaskMatrixProps {
+  // Every task, for parents and subtask progress
+  tasks: Task[];
+  // The tasks matching the current filter; open ones get cards
+  visibleTasks: Task[];
+  onChange: (id: string, quadrant: Pick<Task, "urgent" | "important">) => void;
+}
+
+const QUADRANTS = [
+  { urgent: true, important: true, title: "Do first", hint: "Urgent and important", className: "border-red-500/40" },
+  { urgent: false, important: true, title: "Schedule", hint: "Important, not urgent", className: "border-blue-500/40" },
+  { urgent: true, important: false, title: "Delegate", hint: "Urgent, not important", className: "border-amber-500/40" },
+  { urgent: false, important: false, title: "Eliminate", hint: "Neither", className: "border-muted" },
+];
+
+export function TaskMatrix({ tasks, visibleTasks, onChange }: TaskMatrixProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overQuadrant, setOverQuadrant] = useState<number | null>(null);
+
+  const openTasks = visibleTasks.filter(task => !task.completed);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {QUADRANTS.map((quadrant, index) => {
+        const cards = openTasks
+          .filter(task => task.urgent === quadrant.urgent && task.important === quadrant.important)
+          .sort((a, b) => a.order - b.order);
+
+        return (
+          <div
+            key={quadrant.title}
+            onDragOver={(e) => {
+              if (!draggingId) return;
+              e.preventDefault();
+              setOverQuadrant(index);
+            }}
+            onDragLeave={() => setOverQuadrant(prev => (prev === index ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (draggingId) onChange(draggingId, { urgent: quadrant.urgent, important: quadrant.important });
+              setDraggingId(null);
+              setOverQuadrant(null);
+            }}
+            className={`flex min-h-48 flex-col rounded-lg border-2 bg-muted/40 ${quadrant.className} ${overQuadrant === index ? "ring-2 ring-primary" : ""}`}
+          >
+            <div className="flex items-center justify-between border-b px-3 py-2">
+              <div>
+                <p className="font-medium">{quadrant.title}</p>
+                <p className="text-xs text-muted-foreground">{quadrant.hint}</p>
+              </div>
+              <Badge variant="secondary">{cards.length}</Badge>
+            </div>
+            <div className="flex flex-1 flex-col gap-2 p-2">
+              {cards.map(task => (
+                <div
+                  key={task.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData("text/plain", task.id);
+                    setDraggingId(task.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setOverQuadrant(null);
+                  }}
+                  className={`cursor-grab rounded-md border bg-card p-3 text-sm shadow-sm active:cursor-grabbing ${draggingId === task.id ? "opacity-50" : ""}`}
+                >
+                  <TaskSummary task={task} tasks={tasks} />
+                </div>
+              ))}
+              {cards.length === 0 && (
+                <p className="py-4 text-center text-xs text-muted-foreground">Drop tasks here</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Calendar, Clock, Folder, Hash } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { formatEstimate, getTaskProgress } from "@/lib/tasks";
+import type { Task } from "@/lib/stores";
+
+interface TaskSummaryProps {
+  task: Task;
+  // Every task, to find the parent and count subtask progress
+  tasks: Task[];
+}
+
+const PRIORITY_VARIANTS = { high: "destructive", medium: "default", low: "secondary" } as const;
+
+// A compact view of a task for the board, matrix and Today cards
+export function TaskSummary({ task, tasks }: TaskSummaryProps) {
+  const progress = getTaskProgress(tasks, task);
+  const parent = task.parentId ? tasks.find(t => t.id === task.parentId) : undefined;
+
+  return (
+    <div className="space-y-2">
+      {parent && <p className="truncate text-xs text-muted-foreground">↳ {parent.title}</p>}
+      <p className={`font-medium ${task.completed ? "line-through text-muted-foreground" : ""}`}>{task.title}</p>
+      <div className="flex flex-wrap items-center gap-1">
+        <Badge variant={PRIORITY_VARIANTS[task.priority]}>{task.priority}</Badge>
+        {task.dueDate && (
+          <Badge variant="outline" className="gap-1">
+            <Calendar className="h-3 w-3" />
+            {new Date(task.dueDate).toLocaleDateString()}
+          </Badge>
+        )}
+        {task.estimateMinutes && (
+          <Badge variant="outline" className="gap-1">
+            <Clock className="h-3 w-3" />
+            {formatEstimate(task.estimateMinutes)}
+          </Badge>
+        )}
+        {task.project && (
+          <Badge variant="secondary" className="gap-1">
+            <Folder className="h-3 w-3" />
+            {task.project}
+          </Badge>
+        )}
+        {task.tags.map(tag => (
+          <Badge key={tag} variant="outline" className="gap-1">
+            <Hash className="h-3 w-3" />
+            {tag}
+          </Badge>
+        ))}
+      </div>
+      {progress && (
+        <div className="flex items-center gap-2">
+          <Progress value={progress.ratio * 100} className="h-1.5 flex-1" />
+          <span className="text-xs text-muted-foreground">
+            {progress.done}/{progress.total}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { CalendarPlus, Clock, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { TaskSummary } from "@/components/TaskSummary";
+import { formatEstimate, isOnTodayPlan, todayString } from "@/lib/tasks";
+import { sortTasks } from "@/lib/task-query";
+import type { Task } from "@/lib/stores";
+
+interface TodayPlanProps {
+  // Every task; the plan itself ignores the filter
+  tasks: Task[];
+  // The tasks matching the current filter, offered as the backlog
+  backlogTasks: Task[];
+  availableHours: number;
+  onAvailableHoursChange: (hours: number) => void;
+  onToggle: (id: string) => void;
+  onChange: (id: string, updates: Partial<Task>) => void;
+}
+
+export function TodayPlan({ tasks, backlogTasks, availableHours, onAvailableHoursChange, onToggle, onChange }: TodayPlanProps) {
+  const today = todayString();
+  const planned = sortTasks(tasks.filter(task => isOnTodayPlan(task, today)), "due");
+  const backlog = sortTasks(
+    backlogTasks.filter(task => !task.completed && !isOnTodayPlan(task, today)),
+    "priority"
+  );
+
+  const sections = [
+    { title: "Overdue", tasks: planned.filter(task => !task.completed && !!task.dueDate && task.dueDate < today) },
+    { title: "Due today", tasks: planned.filter(task => !task.completed && task.dueDate === today) },
+    {
+      title: "Picked for today",
+      tasks: planned.filter(task => !task.completed && (!task.dueDate || task.dueDate > today)),
+    },
+    { title: "Done today", tasks: planned.filter(task => task.completed) },
+  ];
+
+  const open = planned.filter(task => !task.completed);
+  const plannedMinutes = open.reduce((sum, task) => sum + (task.estimateMinutes ?? 0), 0);
+  const availableMinutes = availableHours * 60;
+  const unestimated = open.filter(task => !task.estimateMinutes).length;
+  const overCapacity = plannedMinutes > availableMinutes;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2 font-medium">
+              <Clock className="h-4 w-4" />
+              {formatEstimate(plannedMinutes)} planned of {formatEstimate(availableMinutes)}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              Available hours
+              <Input
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={availableHours}
+                onChange={(e) => {
+                  const hours = parseFloat(e.target.value);
+                  if (hours > 0) onAvailableHoursChange(hours);
+                }}
+                className="h-8 w-20"
+              />
+            </label>
+          </div>
+          <Progress value={Math.min(100, (plannedMinutes / availableMinutes) * 100)} className="h-2" />
+          {overCapacity && (
+            <p className="text-sm text-destructive">
+              That's {formatEstimate(plannedMinutes - availableMinutes)} more than you have. Consider moving something
+              back to the backlog.
+            </p>
+          )}
+          {unestimated > 0 && (
+            <p className="text-xs text-muted-foreground">{unestimated} task(s) on the plan have no estimate yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {planned.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            Nothing planned for today. Pick tasks from the backlog below.
+          </CardContent>
+        </Card>
+      )}
+
+      {sections
+        .filter(section => section.tasks.length > 0)
+        .map(section => (
+          <div key={section.title} className="space-y-2">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+              {section.title}
+              <Badge variant="secondary">{section.tasks.length}</Badge>
+            </h3>
+            {section.tasks.map(task => (
+              <Card key={task.id} className={task.completed ? "opacity-75" : ""}>
+                <CardContent className="flex items-start gap-3 p-3 text-sm">
+                  <Checkbox checked={task.completed} onCheckedChange={() => onToggle(task.id)} className="mt-1" />
+                  <div className="flex-1">
+                    <TaskSummary task={task} tasks={tasks} />
+                  </div>
+                  {!task.completed && (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        min={5}
+                        step={5}
+                        placeholder="min"
+                        title="Estimated minutes"
+                        value={task.estimateMinutes ?? ""}
+                        onChange={(e) => {
+                          const minutes = parseInt(e.target.value);
+                          onChange(task.id, { estimateMinutes: minutes > 0 ? minutes : undefined });
+                        }}
+                        className="h-8 w-20"
+                      />
+                      {task.plannedFor && (!task.dueDate || task.dueDate > today) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onChange(task.id, { plannedFor: undefined })}
+                          title="Back to the backlog"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Backlog</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {backlog.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No other open tasks match the current filter.</p>
+          ) : (
+            <div className="max-h-96 space-y-2 overflow-y-auto">
+              {backlog.map(task => (
+                <div key={task.id} className="flex items-start gap-3 rounded-md border p-3 text-sm">
+                  <div className="flex-1">
+                    <TaskSummary task={task} tasks={tasks} />
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onChange(task.id, { plannedFor: today })}
+                    title="Plan for today"
+                  >
+                    <CalendarPlus className="h-4 w-4 mr-1" />
+                    Today
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
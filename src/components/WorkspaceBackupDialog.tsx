@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState } from "react";
+import { DatabaseBackup, Download, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  applyImport,
+  BackupError,
+  downloadBackup,
+  parseBackup,
+  previewImport,
+  type ImportMode,
+  type ParsedBackup,
+  type SectionPreview,
+} from "@/lib/backup";
+
+export function WorkspaceBackupDialog() {
+  const [open, setOpen] = useState(false);
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [previews, setPreviews] = useState<SectionPreview[]>([]);
+  const [selectedSections, setSelectedSections] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!parsed) {
+      setPreviews([]);
+      return;
+    }
+
+    let cancelled = false;
+    previewImport(parsed, mode)
+      .then((result) => {
+        if (!cancelled) setPreviews(result);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Backup preview error:", error);
+        setPreviews([]);
+        toast({
+          title: "Preview Failed",
+          description: "Could not compare the backup with your current data.",
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [parsed, mode, toast]);
+
+  const reset = () => {
+    setParsed(null);
+    setFileName("");
+    setMode("merge");
+    setSelectedSections([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      await downloadBackup();
+      toast({
+        title: "Workspace Exported",
+        description: "Your backup file has been downloaded.",
+      });
+    } catch (error) {
+      console.error("Backup export error:", error);
+      toast({
+        title: "Export Failed",
+        description: "Could not create a backup file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const backup = parseBackup(await file.text());
+      setParsed(backup);
+      setFileName(file.name);
+      setSelectedSections(backup.sections.map((section) => section.id));
+    } catch (error) {
+      reset();
+      toast({
+        title: "Invalid Backup",
+        description: error instanceof BackupError ? error.message : "Could not read the backup file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleSection = (id: string) => {
+    setSelectedSections((prev) =>
+      prev.includes(id) ? prev.filter((sectionId) => sectionId !== id) : [...prev, id]
+    );
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    setIsWorking(true);
+    try {
+      await applyImport(parsed, mode, selectedSections);
+      toast({
+        title: "Workspace Imported",
+        description: `${selectedSections.length} section(s) restored from ${fileName}.`,
+      });
+      setOpen(false);
+      reset();
+    } catch (error) {
+      console.error("Backup import error:", error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof BackupError ? error.message : "Could not import the backup.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Backup & restore">
+          <DatabaseBackup className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Backup & Restore</DialogTitle>
+          <DialogDescription>
+            Move your tasks, notes, reminders, events and settings between browsers with a single file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 border rounded-lg p-4">
+          <h3 className="font-medium">Export workspace</h3>
+          <p className="text-sm text-muted-foreground">
+            Download every tool's data as a versioned JSON backup.
+          </p>
+          <Button onClick={handleExport} disabled={isWorking}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Workspace
+          </Button>
+        </div>
+
+        <div className="space-y-3 border rounded-lg p-4">
+          <h3 className="font-medium">Import workspace</h3>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isWorking}>
+            <Upload className="h-4 w-4 mr-2" />
+            {fileName || "Choose Backup File"}
+          </Button>
+
+          {parsed && (
+            <div className="space-y-3">
+              <p className="text-xs text-muted-foreground">
+                Exported {new Date(parsed.exportedAt).toLocaleString()}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant={mode === "merge" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setMode("merge")}
+                >
+                  Merge
+                </Button>
+                <Button
+                  variant={mode === "replace" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setMode("replace")}
+                >
+                  Replace
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {mode === "merge"
+                  ? "Keep existing items; add new ones and overwrite items with the same ID."
+                  : "Replace each selected tool's data with the contents of the backup."}
+              </p>
+
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {previews.map((preview) => (
+                  <div key={preview.id} className="flex items-center justify-between gap-2 p-2 border rounded">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`section-${preview.id}`}
+                        checked={selectedSections.includes(preview.id)}
+                        onCheckedChange={() => toggleSection(preview.id)}
+                      />
+                      <label htmlFor={`section-${preview.id}`} className="text-sm font-medium">
+                        {preview.label}
+                      </label>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      <Badge variant="default">{preview.added} added</Badge>
+                      <Badge variant="secondary">{preview.replaced} replaced</Badge>
+                      <Badge variant="outline">{preview.skipped} skipped</Badge>
+                      {preview.removed > 0 && <Badge variant="destructive">{preview.removed} removed</Badge>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {parsed && (
+          <DialogFooter>
+            <Button variant="outline" onClick={reset} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={isWorking || selectedSections.length === 0}>
+              {isWorking ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from "react"
+
+import { decryptAttachment, encryptAttachment } from "@/lib/note-crypto"
+import type { AttachmentEncryption, Note, NoteAttachment } from "@/lib/stores"
+
+interface UnlockedBlob {
+  // The IV of the ciphertext this came from
+  iv: string
+  blob: Blob
+}
+
+// Keeps the attachments of encrypted notes encrypted at rest, alongside
+// useNoteVault and with its keys. An attachment follows the note in its
+// `noteId`: while the key is at hand it's encrypted when that note is and
+// stored plain again when the note's encryption is removed. Unlocked ones
+// appear decrypted in `attachments`, without `encryption`; locking drops
+// those blobs. `readableAttachments` leaves out the locked ones.
+export function useAttachmentVault(
+  storedAttachments: NoteAttachment[],
+  setStoredAttachments: Dispatch<SetStateAction<NoteAttachment[]>>,
+  storedNotes: Note[],
+  keys: Map<string, CryptoKey>
+) {
+  const [unlocked, setUnlocked] = useState<Map<string, UnlockedBlob>>(() => new Map())
+  // Ids being encrypted or decrypted for storage, so a re-render while a
+  // large blob is at it doesn't start on it again
+  const convertingRef = useRef(new Set<string>())
+
+  useEffect(() => {
+    if (keys.size === 0) setUnlocked(new Map())
+  }, [keys])
+
+  const noteEncryption = useMemo(
+    () => new Map(storedNotes.map((note) => [note.id, note.encryption] as const)),
+    [storedNotes]
+  )
+
+  const attachments = useMemo(
+    () =>
+      storedAttachments.map((attachment) => {
+        const plain = attachment.encryption && unlocked.get(attachment.id)
+        return plain && plain.iv === attachment.encryption?.iv
+          ? { ...attachment, blob: plain.blob, encryption: undefined }
+          : attachment
+      }),
+    [storedAttachments, unlocked]
+  )
+
+  const readableAttachments = useMemo(() => attachments.filter((attachment) => !attachment.encryption), [attachments])
+
+  // Replaces attachments with their re-encrypted (or decrypted) versions,
+  // unless they changed in the meantime
+  const storeConverted = useCallback(
+    (converted: { from: NoteAttachment; to: NoteAttachment }[]) => {
+      if (converted.length === 0) return
+      const byId = new Map(converted.map((entry) => [entry.from.id, entry]))
+      setStoredAttachments((prev) =>
+        prev.map((attachment) => {
+          const entry = byId.get(attachment.id)
+          return entry && entry.from.blob === attachment.blob ? entry.to : attachment
+        })
+      )
+    },
+    [setStoredAttachments]
+  )
+
+  // Bring each attachment in line with its note's encryption
+  useEffect(() => {
+    const pending = storedAttachments.filter((attachment) => {
+      // Attachments of deleted notes are left as they are
+      if (!noteEncryption.has(attachment.noteId) || convertingRef.current.has(attachment.id)) return false
+      const target = noteEncryption.get(attachment.noteId)
+      if (target?.salt === attachment.encryption?.salt) return false
+      return (!target || keys.has(target.salt)) && (!attachment.encryption || keys.has(attachment.encryption.salt))
+    })
+    if (pending.length === 0) return
+
+    const converting = convertingRef.current
+    pending.forEach((attachment) => converting.add(attachment.id))
+    Promise.all(
+      pending.map(async (attachment) => {
+        const target = noteEncryption.get(attachment.noteId)
+        try {
+          const plain = attachment.encryption
+            ? await decryptAttachment(attachment, keys.get(attachment.encryption.salt) as CryptoKey)
+            : attachment
+          const to = target ? await encryptAttachment(plain, keys.get(target.salt) as CryptoKey, target) : plain
+          return { from: attachment, to }
+        } catch {
+          return null
+        } finally {
+          converting.delete(attachment.id)
+        }
+      })
+    ).then((results) => storeConverted(results.filter((result) => result !== null)))
+  }, [storedAttachments, noteEncryption, keys, storeConverted])
+
+  // Decrypt whatever a key is known for
+  useEffect(() => {
+    const pending = storedAttachments.filter(
+      (attachment) =>
+        attachment.encryption &&
+        keys.has(attachment.encryption.salt) &&
+        unlocked.get(attachment.id)?.iv !== attachment.encryption.iv
+    )
+    if (pending.length === 0) return
+
+    let cancelled = false
+    Promise.all(
+      pending.map(async (attachment) => {
+        const encryption = attachment.encryption as AttachmentEncryption
+        try {
+          const { blob } = await decryptAttachment(attachment, keys.get(encryption.salt) as CryptoKey)
+          return [attachment.id, { iv: encryption.iv, blob }] as const
+        } catch {
+          return null
+        }
+      })
+    ).then((results) => {
+      const decrypted = results.filter((result) => result !== null)
+      if (cancelled || decrypted.length === 0) return
+      setUnlocked((prev) => new Map([...prev, ...decrypted]))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [storedAttachments, keys, unlocked])
+
+  // Stores new attachments, encrypted first if their note is, so their
+  // contents never sit in storage as plain data
+  const addAttachments = useCallback(
+    async (added: NoteAttachment[]) => {
+      const stored = await Promise.all(
+        added.map((attachment) => {
+          const target = noteEncryption.get(attachment.noteId)
+          const key = target && keys.get(target.salt)
+          return target && key ? encryptAttachment(attachment, key, target) : attachment
+        })
+      )
+      const decrypted = stored.flatMap((attachment, i) =>
+        attachment.encryption ? [[attachment.id, { iv: attachment.encryption.iv, blob: added[i].blob }] as const] : []
+      )
+      if (decrypted.length > 0) setUnlocked((prev) => new Map([...prev, ...decrypted]))
+      setStoredAttachments((prev) => [...prev, ...stored])
+    },
+    [noteEncryption, keys, setStoredAttachments]
+  )
+
+  return { attachments, readableAttachments, addAttachments }
+}
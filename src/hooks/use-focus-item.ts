@@ -0,0 +1,26 @@
+import { useEffect } from "react"
+import { useSearchParams } from "react-router-dom"
+
+import { ITEM_PARAM } from "@/lib/search"
+
+export const focusItemDomId = (id: string) => `item-${id}`
+
+// Reads the `?item=` parameter set by the command palette and scrolls the
+// matching element into view once the tool has rendered its items.
+export function useFocusItem(itemCount: number) {
+  const [searchParams] = useSearchParams()
+  const focusedId = searchParams.get(ITEM_PARAM)
+
+  useEffect(() => {
+    if (!focusedId || itemCount === 0) return
+
+    const frame = requestAnimationFrame(() => {
+      document
+        .getElementById(focusItemDomId(focusedId))
+        ?.scrollIntoView({ behavior: "smooth", block: "center" })
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [focusedId, itemCount])
+
+  return focusedId
+}
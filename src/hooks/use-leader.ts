@@ -0,0 +1,18 @@
+import * as React from "react"
+
+import { requestLeadership } from "@/lib/leader"
+
+// True while this tab is the elected leader for `name` among all open tabs
+export function useIsLeader(name: string) {
+  const [isLeader, setIsLeader] = React.useState(false)
+
+  React.useEffect(() => {
+    const resign = requestLeadership(name, setIsLeader)
+    return () => {
+      resign()
+      setIsLeader(false)
+    }
+  }, [name])
+
+  return isLeader
+}
@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from "react"
+
+import {
+  decryptNote,
+  encryptNote,
+  getEncryptedNotebook,
+  unlockKey,
+  type KeyParams,
+  type NoteSecret,
+} from "@/lib/note-crypto"
+import type { EncryptedData, Note, Notebook } from "@/lib/stores"
+
+interface UnlockedNote extends NoteSecret {
+  // The IV of the ciphertext this came from; a note saved since (say in
+  // another tab) has a new one and is decrypted again
+  iv: string
+}
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel"] as const
+
+const sameTags = (a: string[], b: string[]) => a.length === b.length && a.every((tag, i) => tag === b[i])
+
+// Keeps the keys of unlocked notes in memory and presents the stored notes
+// with unlocked ones decrypted. `setNotes` takes that decrypted view and
+// encrypts whatever needs it on the way to storage, so the page can edit an
+// unlocked note like any other. Notes filed in an encrypted notebook are
+// encrypted with its key. Everything locks again after `autoLockMinutes`
+// without activity.
+export function useNoteVault(
+  storedNotes: Note[],
+  setStoredNotes: Dispatch<SetStateAction<Note[]>>,
+  notebooks: Notebook[],
+  autoLockMinutes: number
+) {
+  // Keys by salt, so one unlock opens everything sharing a passphrase
+  const [keys, setKeys] = useState<Map<string, CryptoKey>>(() => new Map())
+  const [unlocked, setUnlocked] = useState<Map<string, UnlockedNote>>(() => new Map())
+
+  const isUnlocked = useCallback(
+    (note: Note) => !!note.encryption && unlocked.get(note.id)?.iv === note.encryption.iv,
+    [unlocked]
+  )
+
+  const notes = useMemo(
+    () =>
+      storedNotes.map((note) => {
+        const secret = isUnlocked(note) ? unlocked.get(note.id) : undefined
+        return secret ? { ...note, content: secret.content, tags: secret.tags } : note
+      }),
+    [storedNotes, unlocked, isUnlocked]
+  )
+
+  const queueRef = useRef<Promise<void>>(Promise.resolve())
+  const pendingRef = useRef(0)
+  // Read by setNotes and the write queue. While writes are still encrypting,
+  // the notes they will store stand in for the rendered ones, so updates made
+  // meanwhile build on them.
+  const latestRef = useRef({ notes, keys, unlocked, notebooks })
+  latestRef.current = {
+    notes: pendingRef.current > 0 ? latestRef.current.notes : notes,
+    keys,
+    unlocked,
+    notebooks,
+  }
+
+  // Decrypt whatever a key is known for
+  useEffect(() => {
+    const pending = storedNotes.filter(
+      (note) => note.encryption && keys.has(note.encryption.salt) && !isUnlocked(note)
+    )
+    if (pending.length === 0) return
+
+    let cancelled = false
+    Promise.all(
+      pending.map(async (note) => {
+        const encryption = note.encryption as EncryptedData
+        try {
+          const secret = await decryptNote(note, keys.get(encryption.salt) as CryptoKey)
+          return [note.id, { ...secret, iv: encryption.iv }] as const
+        } catch {
+          // Tampered with or encrypted under another passphrase with the same salt
+          return null
+        }
+      })
+    ).then((results) => {
+      const decrypted = results.filter((result) => result !== null)
+      if (cancelled || decrypted.length === 0) return
+      setUnlocked((prev) => new Map([...prev, ...decrypted]))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [storedNotes, keys, isUnlocked])
+
+  // Runs `write` after any writes still encrypting, so they land in order
+  const enqueue = useCallback((write: () => Promise<void>) => {
+    pendingRef.current++
+    queueRef.current = queueRef.current.then(write).finally(() => {
+      pendingRef.current--
+    })
+    return queueRef.current
+  }, [])
+
+  const setNotes = useCallback(
+    (update: SetStateAction<Note[]>) => {
+      const { notes: current, keys, unlocked, notebooks } = latestRef.current
+      const next = typeof update === "function" ? update(current) : update
+      latestRef.current = { ...latestRef.current, notes: next }
+
+      const toEncrypt: { index: number; key: CryptoKey; params: KeyParams }[] = []
+      const stored = next.map((note, index) => {
+        const params = note.encryption ?? getEncryptedNotebook(notebooks, note.notebookId)?.encryption
+        const key = params && keys.get(params.salt)
+        // Locked notes are still ciphertext; plain notes without a key stay plain
+        if (!params || !key || (note.encryption && unlocked.get(note.id)?.iv !== note.encryption.iv)) return note
+
+        const secret = note.encryption && unlocked.get(note.id)
+        if (secret && secret.content === note.content && sameTags(secret.tags, note.tags)) {
+          return { ...note, content: "", tags: [] }
+        }
+        toEncrypt.push({ index, key, params })
+        return note
+      })
+
+      if (toEncrypt.length === 0 && pendingRef.current === 0) {
+        setStoredNotes(stored)
+        return
+      }
+
+      enqueue(async () => {
+        const decrypted = new Map<string, UnlockedNote>()
+        for (const { index, key, params } of toEncrypt) {
+          const note = next[index]
+          const encrypted = await encryptNote(note, note, key, params)
+          stored[index] = encrypted
+          decrypted.set(note.id, { content: note.content, tags: note.tags, iv: (encrypted.encryption as EncryptedData).iv })
+        }
+        setStoredNotes(stored)
+        if (decrypted.size > 0) setUnlocked((prev) => new Map([...prev, ...decrypted]))
+      })
+    },
+    [setStoredNotes, enqueue]
+  )
+
+  const addKey = useCallback((salt: string, key: CryptoKey) => {
+    setKeys((prev) => new Map(prev).set(salt, key))
+  }, [])
+
+  // False when the passphrase is wrong
+  const unlock = useCallback(
+    async (encrypted: EncryptedData, passphrase: string) => {
+      const key = await unlockKey(passphrase, encrypted)
+      if (key) addKey(encrypted.salt, key)
+      return key !== null
+    },
+    [addKey]
+  )
+
+  // Encrypts the plain notes among `ids` with `key`
+  const encryptNotes = useCallback(
+    (ids: string[], key: CryptoKey, params: KeyParams) => {
+      addKey(params.salt, key)
+      return enqueue(async () => {
+        const targets = latestRef.current.notes.filter((note) => ids.includes(note.id) && !note.encryption)
+        const encrypted = new Map<string, Note>()
+        for (const note of targets) encrypted.set(note.id, await encryptNote(note, note, key, params))
+
+        setStoredNotes((prev) => prev.map((note) => encrypted.get(note.id) ?? note))
+        setUnlocked((prev) => {
+          const next = new Map(prev)
+          targets.forEach((note) => {
+            const iv = (encrypted.get(note.id)?.encryption as EncryptedData).iv
+            next.set(note.id, { content: note.content, tags: note.tags, iv })
+          })
+          return next
+        })
+      })
+    },
+    [addKey, enqueue, setStoredNotes]
+  )
+
+  // Stores the unlocked notes among `ids` as plain text again
+  const decryptNotes = useCallback(
+    (ids: string[]) =>
+      enqueue(async () => {
+        const { notes: current, unlocked } = latestRef.current
+        const plain = new Map(
+          current
+            .filter((note) => ids.includes(note.id) && note.encryption && unlocked.get(note.id)?.iv === note.encryption.iv)
+            .map((note) => [note.id, { ...note, encryption: undefined }])
+        )
+        setStoredNotes((prev) => prev.map((note) => plain.get(note.id) ?? note))
+      }),
+    [enqueue, setStoredNotes]
+  )
+
+  const lock = useCallback(() => {
+    setKeys(new Map())
+    setUnlocked(new Map())
+  }, [])
+
+  useEffect(() => {
+    if (keys.size === 0) return
+
+    let timer = window.setTimeout(lock, autoLockMinutes * 60_000)
+    const restart = () => {
+      window.clearTimeout(timer)
+      timer = window.setTimeout(lock, autoLockMinutes * 60_000)
+    }
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, restart, { passive: true }))
+    return () => {
+      window.clearTimeout(timer)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, restart))
+    }
+  }, [keys, autoLockMinutes, lock])
+
+  // Whether a note can be filed in `notebookId` right now: not while the
+  // notebook is encrypted and locked
+  const canStoreIn = useCallback(
+    (notebookId: string | undefined | null) => {
+      const notebook = getEncryptedNotebook(notebooks, notebookId)
+      return !notebook?.encryption || keys.has(notebook.encryption.salt)
+    },
+    [notebooks, keys]
+  )
+
+  return {
+    notes,
+    setNotes,
+    // By salt; for useAttachmentVault
+    keys,
+    isLocked: (note: Note) => !!note.encryption && !isUnlocked(note),
+    hasKey: (salt: string) => keys.has(salt),
+    hasUnlocked: keys.size > 0,
+    canStoreIn,
+    unlock,
+    encryptNotes,
+    decryptNotes,
+    lock,
+  }
+}
@@ -0,0 +1,35 @@
+import * as React from "react"
+
+// Returns a getter that hands out one object URL per Blob, revoking URLs for
+// blobs that are no longer in `blobs` and all of them on unmount.
+export function useObjectUrls(blobs: Blob[]) {
+  const cacheRef = React.useRef(new Map<Blob, string>())
+
+  React.useEffect(() => {
+    const live = new Set(blobs)
+    const cache = cacheRef.current
+    cache.forEach((url, blob) => {
+      if (!live.has(blob)) {
+        URL.revokeObjectURL(url)
+        cache.delete(blob)
+      }
+    })
+  }, [blobs])
+
+  React.useEffect(() => {
+    const cache = cacheRef.current
+    return () => {
+      cache.forEach((url) => URL.revokeObjectURL(url))
+      cache.clear()
+    }
+  }, [])
+
+  return React.useCallback((blob: Blob) => {
+    let url = cacheRef.current.get(blob)
+    if (!url) {
+      url = URL.createObjectURL(blob)
+      cacheRef.current.set(blob, url)
+    }
+    return url
+  }, [])
+}
@@ -0,0 +1,180 @@
+import * as React from "react"
+import { useNavigate } from "react-router-dom"
+
+import { Button } from "@/components/ui/button"
+import { useIsLeader } from "@/hooks/use-leader"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { toast } from "@/hooks/use-toast"
+import {
+  NOTIFICATION_ACTION_MESSAGE,
+  showSystemNotification,
+  type NotificationActionMessage,
+} from "@/lib/notifications"
+import {
+  getDueReminders,
+  getNextReminderTime,
+  getReminderRoute,
+  isMissed,
+  markReminderDelivered,
+  snoozeReminder,
+  SNOOZE_OPTIONS,
+} from "@/lib/reminders"
+import { remindersStore, type Reminder } from "@/lib/stores"
+
+// Timers in background tabs are throttled and don't advance while the device
+// sleeps, so never wait longer than this before looking again.
+const MAX_WAIT_MS = 60 * 1000
+
+const SNOOZE_ACTION_PREFIX = "snooze-"
+
+// Reminder toasts stay up long enough to be snoozed after a short absence
+const REMINDER_TOAST_DURATION = 5 * 60 * 1000
+
+type SnoozeHandler = (id: string, minutes: number) => void
+
+function describeReminder(reminder: Reminder, now: number) {
+  const missed = isMissed(reminder, now)
+  return {
+    title: missed ? "Missed reminder" : "🔔 Reminder",
+    body: missed
+      ? `${reminder.title} (due ${new Date(reminder.snoozedUntil ?? reminder.datetime).toLocaleString()})`
+      : reminder.title,
+  }
+}
+
+async function notifyInBackground(reminder: Reminder, now: number) {
+  const { title, body } = describeReminder(reminder, now)
+  return showSystemNotification(title, {
+    body,
+    tag: `reminder-${reminder.id}`,
+    data: { url: getReminderRoute(reminder), reminderId: reminder.id },
+    // Platforms show at most two or three buttons; the rest are on the page
+    actions: SNOOZE_OPTIONS.slice(0, 2).map(({ minutes, label }) => ({
+      action: `${SNOOZE_ACTION_PREFIX}${minutes}`,
+      title: `Snooze ${label}`,
+    })),
+  })
+}
+
+function toastReminders(reminders: Reminder[], now: number, onSnooze: SnoozeHandler, onCustom: (reminder: Reminder) => void) {
+  // Only one toast is shown at a time, so several due reminders share one
+  if (reminders.length > 1) {
+    toast({
+      title: `🔔 ${reminders.length} reminders`,
+      description: reminders.map((reminder) => reminder.title).join(", "),
+      duration: REMINDER_TOAST_DURATION,
+    })
+    return
+  }
+
+  const [reminder] = reminders
+  const { title, body } = describeReminder(reminder, now)
+  const { dismiss } = toast({
+    title,
+    description: (
+      <div className="space-y-2">
+        <p>{body}</p>
+        <div className="flex flex-wrap gap-1">
+          {SNOOZE_OPTIONS.map(({ minutes, label }) => (
+            <Button
+              key={minutes}
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                onSnooze(reminder.id, minutes)
+                dismiss()
+              }}
+            >
+              {label}
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              onCustom(reminder)
+              dismiss()
+            }}
+          >
+            Custom...
+          </Button>
+        </div>
+      </div>
+    ),
+    duration: REMINDER_TOAST_DURATION,
+  })
+}
+
+// Delivers due reminders from whichever tab is the elected leader, whatever
+// tool it is showing. Reminders that came due while the app was closed are
+// delivered (as missed) as soon as it starts again.
+export function useReminderScheduler() {
+  const [reminders, setReminders, loaded] = useStoredState(remindersStore)
+  const isLeader = useIsLeader("reminder-checker")
+  const navigate = useNavigate()
+
+  const snooze = React.useCallback<SnoozeHandler>(
+    (id, minutes) => {
+      setReminders((prev) => prev.map((reminder) => (reminder.id === id ? snoozeReminder(reminder, minutes) : reminder)))
+    },
+    [setReminders]
+  )
+
+  // Snooze buttons on system notifications
+  React.useEffect(() => {
+    if (!("serviceWorker" in navigator)) return
+
+    const handleMessage = (event: MessageEvent<NotificationActionMessage>) => {
+      const { type, action, data } = event.data ?? {}
+      if (type !== NOTIFICATION_ACTION_MESSAGE || !action.startsWith(SNOOZE_ACTION_PREFIX)) return
+      snooze(String(data.reminderId), Number(action.slice(SNOOZE_ACTION_PREFIX.length)))
+    }
+
+    navigator.serviceWorker.addEventListener("message", handleMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage)
+  }, [snooze])
+
+  React.useEffect(() => {
+    if (!isLeader || !loaded) return
+
+    let timeout: ReturnType<typeof setTimeout> | undefined
+
+    const check = async () => {
+      clearTimeout(timeout)
+      const now = Date.now()
+      const due = getDueReminders(reminders, now)
+
+      if (due.length > 0) {
+        const dueIds = new Set(due.map((reminder) => reminder.id))
+        // Saving re-runs this effect, which schedules the next check
+        setReminders((prev) =>
+          prev.map((reminder) => (dueIds.has(reminder.id) ? markReminderDelivered(reminder, new Date(now)) : reminder))
+        )
+
+        // Prefer system notifications when the user isn't looking at the app
+        const toToast: Reminder[] = []
+        for (const reminder of due) {
+          if (document.hasFocus() || !(await notifyInBackground(reminder, now))) toToast.push(reminder)
+        }
+        if (toToast.length > 0) {
+          toastReminders(toToast, now, snooze, (reminder) => navigate(getReminderRoute(reminder)))
+        }
+        return
+      }
+
+      const next = getNextReminderTime(reminders, now)
+      if (next !== null) timeout = setTimeout(check, Math.min(next - now, MAX_WAIT_MS))
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") check()
+    }
+
+    check()
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => {
+      clearTimeout(timeout)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [reminders, setReminders, isLeader, loaded, snooze, navigate])
+}
@@ -0,0 +1,20 @@
+import * as React from "react"
+import { useNavigate } from "react-router-dom"
+
+import { OPEN_URL_MESSAGE, type OpenUrlMessage } from "@/lib/notifications"
+
+// Routes to the page a clicked notification points at, without reloading
+export function useServiceWorkerNavigation() {
+  const navigate = useNavigate()
+
+  React.useEffect(() => {
+    if (!("serviceWorker" in navigator)) return
+
+    const handleMessage = (event: MessageEvent<OpenUrlMessage>) => {
+      if (event.data?.type === OPEN_URL_MESSAGE) navigate(event.data.url)
+    }
+
+    navigator.serviceWorker.addEventListener("message", handleMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage)
+  }, [navigate])
+}
@@ -0,0 +1,59 @@
+import * as React from "react"
+
+import {
+  loadStore,
+  readStore,
+  saveStore,
+  subscribeToStoreChanges,
+  type StoreDefinition,
+} from "@/lib/storage"
+
+// useState backed by a versioned store. localStorage stores are read (and
+// migrated) synchronously on first render; IndexedDB stores start at their
+// default and fill in once loaded. The value is written back whenever it
+// changes, but never before the initial load has finished.
+//
+// Saves made elsewhere (another component or another tab) are picked up
+// live, so two open copies of a tool never overwrite each other's edits.
+export function useStoredState<T>(store: StoreDefinition<T>) {
+  const isSync = store.backend === "localStorage"
+  const [value, setValue] = React.useState<T>(() => (isSync ? readStore(store) : store.defaultValue))
+  const [loaded, setLoaded] = React.useState(isSync)
+  const [origin] = React.useState(() => crypto.randomUUID())
+  // The last value that came from storage rather than from this component;
+  // it must not be saved again or tabs would echo changes back and forth.
+  const externalValueRef = React.useRef<T | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const reload = (initial: boolean) =>
+      loadStore(store)
+        .then((stored) => {
+          if (cancelled) return
+          externalValueRef.current = stored
+          setValue(stored)
+          if (initial) setLoaded(true)
+        })
+        // Leave `loaded` false so a failed read can never be overwritten by defaults
+        .catch((error) => console.error(`Failed to load "${store.key}":`, error))
+
+    if (!isSync) reload(true)
+
+    const unsubscribe = subscribeToStoreChanges((change) => {
+      if (change.key === store.key && change.origin !== origin) reload(false)
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [store, isSync, origin])
+
+  React.useEffect(() => {
+    if (!loaded || value === externalValueRef.current) return
+    saveStore(store, value, origin)
+  }, [store, value, loaded, origin])
+
+  return [value, setValue, loaded] as const
+}
@@ -0,0 +1,332 @@
+import { z } from "zod";
+import { loadStore, migrateData, saveStore, type StoreDefinition } from "@/lib/storage";
+import {
+  calendarEventsStore,
+  dayCounterStore,
+  dayPlanSettingsStore,
+  journalSettingsStore,
+  noteAttachmentsStore,
+  notebooksStore,
+  noteHistorySettingsStore,
+  noteLockSettingsStore,
+  noteRevisionsStore,
+  notesStore,
+  noteTemplatesStore,
+  pomodoroSettingsStore,
+  remindersStore,
+  savedPasswordsStore,
+  savedTaskFiltersStore,
+  taskBoardStore,
+  tasksStore,
+  wordCounterTextStore,
+} from "@/lib/stores";
+import { deserializeAttachments, serializeAttachments } from "@/lib/note-attachments";
+
+// Workspace backups bundle every tool's stored data into one JSON file. Each
+// section keeps the schema version it was written with, so importing an old
+// backup runs the same migrations as reading old localStorage data.
+
+export const BACKUP_FORMAT = "productivity-hub-workspace";
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type ImportMode = "merge" | "replace";
+
+interface BackupSection {
+  id: string;
+  label: string;
+  store: StoreDefinition<unknown>;
+  // For data JSON can't hold, such as Blobs: convert to and from a JSON-safe form
+  serialize?: (value: unknown) => Promise<unknown>;
+  deserialize?: (data: unknown) => unknown;
+}
+
+export const backupSections: BackupSection[] = [
+  { id: "tasks", label: "Tasks", store: tasksStore },
+  { id: "task-filters", label: "Saved task filters", store: savedTaskFiltersStore },
+  { id: "task-board", label: "Task board columns", store: taskBoardStore },
+  { id: "day-plan", label: "Today plan settings", store: dayPlanSettingsStore },
+  { id: "notes", label: "Notes", store: notesStore },
+  { id: "notebooks", label: "Notebooks", store: notebooksStore },
+  { id: "note-templates", label: "Note templates", store: noteTemplatesStore },
+  { id: "journal-settings", label: "Journal settings", store: journalSettingsStore },
+  {
+    id: "note-attachments",
+    label: "Note attachments",
+    store: noteAttachmentsStore,
+    serialize: serializeAttachments,
+    deserialize: deserializeAttachments,
+  },
+  { id: "note-revisions", label: "Note history", store: noteRevisionsStore },
+  { id: "note-history-settings", label: "Note history settings", store: noteHistorySettingsStore },
+  { id: "note-lock-settings", label: "Note lock settings", store: noteLockSettingsStore },
+  { id: "reminders", label: "Reminders", store: remindersStore },
+  { id: "calendar-events", label: "Calendar events", store: calendarEventsStore },
+  { id: "day-counters", label: "Day counters", store: dayCounterStore },
+  { id: "saved-passwords", label: "Saved passwords", store: savedPasswordsStore },
+  { id: "pomodoro-settings", label: "Pomodoro settings", store: pomodoroSettingsStore },
+  { id: "word-counter", label: "Word counter text", store: wordCounterTextStore },
+];
+
+const manifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  formatVersion: z.number().int().positive(),
+  exportedAt: z.string(),
+  sections: z.array(
+    z.object({
+      id: z.string(),
+      label: z.string(),
+      storeKey: z.string(),
+      schemaVersion: z.number(),
+      count: z.number(),
+    })
+  ),
+});
+
+const backupSchema = z.object({
+  manifest: manifestSchema,
+  sections: z.record(
+    z.object({
+      schemaVersion: z.number(),
+      data: z.unknown(),
+    })
+  ),
+});
+
+export type WorkspaceBackup = z.infer<typeof backupSchema>;
+
+export interface ParsedSection {
+  id: string;
+  label: string;
+  value: unknown;
+  invalid: number;
+}
+
+export interface ParsedBackup {
+  exportedAt: string;
+  sections: ParsedSection[];
+}
+
+export interface SectionPreview {
+  id: string;
+  label: string;
+  added: number;
+  replaced: number;
+  skipped: number;
+  removed: number;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+type Identified = { id: string };
+
+const countOf = (value: unknown) => (Array.isArray(value) ? value.length : 1);
+
+async function isSameBlob(a: Blob, b: Blob): Promise<boolean> {
+  if (a.size !== b.size || a.type !== b.type) return false;
+  const [bytesA, bytesB] = await Promise.all([a.arrayBuffer(), b.arrayBuffer()]);
+  const viewA = new Uint8Array(bytesA);
+  const viewB = new Uint8Array(bytesB);
+  return viewA.every((byte, i) => byte === viewB[i]);
+}
+
+// Deep equality as JSON would see it (undefined fields don't count), except
+// that Blobs, which JSON turns into {}, are compared by content
+async function isSame(a: unknown, b: unknown): Promise<boolean> {
+  if (a instanceof Blob || b instanceof Blob) {
+    return a instanceof Blob && b instanceof Blob && isSameBlob(a, b);
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (!(await isSame(a[i], b[i]))) return false;
+    }
+    return true;
+  }
+  if (typeof a === "object" && a !== null && typeof b === "object" && b !== null) {
+    const recordA = a as Record<string, unknown>;
+    const recordB = b as Record<string, unknown>;
+    const keys = (record: Record<string, unknown>) => Object.keys(record).filter((key) => record[key] !== undefined);
+    const keysA = keys(recordA);
+    if (keysA.length !== keys(recordB).length) return false;
+    for (const key of keysA) {
+      if (!(await isSame(recordA[key], recordB[key]))) return false;
+    }
+    return true;
+  }
+  return a === b;
+}
+
+export async function createBackup(): Promise<WorkspaceBackup> {
+  const sections: WorkspaceBackup["sections"] = {};
+  const manifestSections: WorkspaceBackup["manifest"]["sections"] = [];
+
+  for (const section of backupSections) {
+    const value = await loadStore(section.store);
+    const data = section.serialize ? await section.serialize(value) : value;
+    sections[section.id] = { schemaVersion: section.store.version, data };
+    manifestSections.push({
+      id: section.id,
+      label: section.label,
+      storeKey: section.store.key,
+      schemaVersion: section.store.version,
+      count: countOf(value),
+    });
+  }
+
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      sections: manifestSections,
+    },
+    sections,
+  };
+}
+
+export async function downloadBackup() {
+  const backup = await createBackup();
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `productivity-hub-backup-${backup.manifest.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Validate a backup file and migrate each section to the current schema.
+// Invalid entries inside a collection are counted and dropped; sections the
+// file doesn't contain are left out.
+export function parseBackup(text: string): ParsedBackup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new BackupError("The file is not valid JSON.");
+  }
+
+  const result = backupSchema.safeParse(json);
+  if (!result.success) {
+    throw new BackupError("This file is not a ProductivityHub workspace backup.");
+  }
+
+  const backup = result.data;
+  if (backup.manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupError("This backup was created by a newer version of the app.");
+  }
+
+  const sections: ParsedSection[] = [];
+  for (const section of backupSections) {
+    const stored = backup.sections[section.id];
+    if (!stored) continue;
+
+    let migrated: { value: unknown; rejected: unknown[] } | null;
+    try {
+      const data = section.deserialize ? section.deserialize(stored.data) : stored.data;
+      migrated = migrateData(section.store, stored.schemaVersion, data);
+    } catch {
+      migrated = null;
+    }
+
+    sections.push({
+      id: section.id,
+      label: section.label,
+      value: migrated?.value ?? null,
+      invalid: migrated ? migrated.rejected.length : countOf(stored.data),
+    });
+  }
+
+  return { exportedAt: backup.manifest.exportedAt, sections };
+}
+
+function mergeSection(section: BackupSection, current: unknown, incoming: unknown, mode: ImportMode) {
+  if (section.store.kind === "value" || mode === "replace") return incoming;
+
+  const merged = [...(current as Identified[])];
+  (incoming as Identified[]).forEach((item) => {
+    const index = merged.findIndex((existing) => existing.id === item.id);
+    if (index === -1) {
+      merged.push(item);
+    } else {
+      merged[index] = item;
+    }
+  });
+  return merged;
+}
+
+async function previewSection(
+  section: BackupSection,
+  parsed: ParsedSection,
+  current: unknown,
+  mode: ImportMode
+): Promise<SectionPreview> {
+  const preview: SectionPreview = {
+    id: parsed.id,
+    label: parsed.label,
+    added: 0,
+    replaced: 0,
+    skipped: parsed.invalid,
+    removed: 0,
+  };
+  if (parsed.value === null) return preview;
+
+  if (section.store.kind === "value") {
+    if (await isSame(current, parsed.value)) {
+      preview.skipped += 1;
+    } else {
+      preview.replaced += 1;
+    }
+    return preview;
+  }
+
+  const existing = new Map((current as Identified[]).map((item) => [item.id, item]));
+  const incomingIds = new Set<string>();
+  for (const item of parsed.value as Identified[]) {
+    incomingIds.add(item.id);
+    const match = existing.get(item.id);
+    if (!match) {
+      preview.added += 1;
+    } else if (await isSame(match, item)) {
+      preview.skipped += 1;
+    } else {
+      preview.replaced += 1;
+    }
+  }
+
+  if (mode === "replace") {
+    preview.removed = [...existing.keys()].filter((id) => !incomingIds.has(id)).length;
+  }
+  return preview;
+}
+
+export async function previewImport(parsed: ParsedBackup, mode: ImportMode): Promise<SectionPreview[]> {
+  const previews: SectionPreview[] = [];
+  for (const parsedSection of parsed.sections) {
+    const section = backupSections.find((s) => s.id === parsedSection.id);
+    if (!section) continue;
+    previews.push(await previewSection(section, parsedSection, await loadStore(section.store), mode));
+  }
+  return previews;
+}
+
+export async function applyImport(parsed: ParsedBackup, mode: ImportMode, sectionIds: string[]) {
+  for (const parsedSection of parsed.sections) {
+    const section = backupSections.find((s) => s.id === parsedSection.id);
+    if (!section || parsedSection.value === null || !sectionIds.includes(section.id)) continue;
+
+    const current = await loadStore(section.store);
+    const saved = await saveStore(section.store, mergeSection(section, current, parsedSection.value, mode));
+    if (!saved) {
+      throw new BackupError(`Could not save ${section.label.toLowerCase()}. Storage may be full.`);
+    }
+  }
+}
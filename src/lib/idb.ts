@@ -0,0 +1,58 @@
+// Minimal promise wrapper around a single IndexedDB object store. Values are
+// stored by structured clone, so Files, Blobs and large arrays survive as-is.
+
+const DB_NAME = "productivity-hub";
+const DB_VERSION = 1;
+const STORE_NAME = "stores";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
+
+export const idbGet = (key: string) => withStore<unknown>("readonly", (store) => store.get(key));
+
+export const idbSet = (key: string, value: unknown) =>
+  withStore("readwrite", (store) => store.put(value, key)).then(() => undefined);
+
+export const idbDelete = (key: string) =>
+  withStore("readwrite", (store) => store.delete(key)).then(() => undefined);
+
+export const idbKeys = () =>
+  withStore("readonly", (store) => store.getAllKeys()).then((keys) => keys.map(String));
@@ -0,0 +1,93 @@
+// Leader election between open tabs, so work that must happen once per
+// browser (like firing reminder notifications) isn't repeated in every tab.
+// Uses the Web Locks API where available: the lock is held until the tab
+// closes or gives it up, and the next waiting tab takes over. Older browsers
+// fall back to a lease in localStorage that the leader keeps renewing.
+
+const LEASE_PREFIX = "productivity-leader-";
+const HEARTBEAT_MS = 2000;
+const LEASE_MS = 5000;
+
+interface Lease {
+  id: string;
+  expiresAt: number;
+}
+
+type LeadershipListener = (isLeader: boolean) => void;
+
+function readLease(key: string): Lease | null {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? (JSON.parse(saved) as Lease) : null;
+  } catch {
+    return null;
+  }
+}
+
+function electWithLocks(name: string, onChange: LeadershipListener) {
+  const controller = new AbortController();
+  let release: () => void = () => {};
+
+  navigator.locks
+    .request(`${LEASE_PREFIX}${name}`, { signal: controller.signal }, () => {
+      onChange(true);
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch(() => {
+      // Aborted before the lock was granted
+    });
+
+  return () => {
+    controller.abort();
+    release();
+  };
+}
+
+function electWithLease(name: string, onChange: LeadershipListener) {
+  const key = `${LEASE_PREFIX}${name}`;
+  const id = crypto.randomUUID();
+  let isLeader = false;
+
+  const heartbeat = () => {
+    const lease = readLease(key);
+    if (!lease || lease.id === id || lease.expiresAt < Date.now()) {
+      try {
+        localStorage.setItem(key, JSON.stringify({ id, expiresAt: Date.now() + LEASE_MS }));
+      } catch {
+        // Storage is unavailable; keep trying on the next beat
+      }
+    }
+
+    const leading = readLease(key)?.id === id;
+    if (leading !== isLeader) {
+      isLeader = leading;
+      onChange(leading);
+    }
+  };
+
+  const resign = () => {
+    if (readLease(key)?.id === id) localStorage.removeItem(key);
+  };
+
+  heartbeat();
+  const interval = setInterval(heartbeat, HEARTBEAT_MS);
+  window.addEventListener("pagehide", resign);
+
+  return () => {
+    clearInterval(interval);
+    window.removeEventListener("pagehide", resign);
+    resign();
+  };
+}
+
+// Compete for leadership of `name`. `onChange` is called when this tab gains
+// (or, with the lease fallback, loses) leadership; the returned function
+// withdraws from the election and hands leadership to another tab.
+export function requestLeadership(name: string, onChange: LeadershipListener): () => void {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return electWithLocks(name, onChange);
+  }
+  return electWithLease(name, onChange);
+}
@@ -0,0 +1,152 @@
+import DOMPurify from "dompurify";
+import hljs from "highlight.js/lib/common";
+import { Marked, type TokenizerAndRendererExtension } from "marked";
+import { ATTACHMENT_PROTOCOL, formatFileSize, isImageAttachment } from "@/lib/note-attachments";
+import { normalizeTitle, WIKI_LINK } from "@/lib/wiki-links";
+
+// Markdown rendering for notes: GitHub-flavoured Markdown (tables, task
+// lists, fenced code) with highlighted code blocks. The HTML is always run
+// through DOMPurify, so a stored note can't inject script however it was
+// written or imported.
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export interface ResolvedAttachment {
+  url: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface RenderOptions {
+  // Existing note titles; wiki links to anything else are marked as missing
+  noteTitles?: string[];
+  // Looks up an attachment: link's target
+  resolveAttachment?: (id: string) => ResolvedAttachment | undefined;
+}
+
+// Set for the duration of a render; marked renders synchronously, so this
+// never leaks into another render
+let noteTitles: Set<string> | null = null;
+let resolveAttachment: RenderOptions["resolveAttachment"];
+
+const attachmentId = (href: string) =>
+  href.startsWith(ATTACHMENT_PROTOCOL) ? href.slice(ATTACHMENT_PROTOCOL.length) : null;
+
+function renderAttachment(id: string, text: string, inline: boolean): string {
+  const attachment = resolveAttachment?.(id);
+  if (!attachment) {
+    return `<span class="attachment-missing">${escapeHtml(text || "Attachment")} (missing)</span>`;
+  }
+  if (inline && isImageAttachment(attachment)) {
+    return `<img src="${escapeHtml(attachment.url)}" alt="${escapeHtml(text)}">`;
+  }
+  return `<a href="${escapeHtml(attachment.url)}" download="${escapeHtml(attachment.name)}" class="attachment-chip" title="Download ${escapeHtml(attachment.name)}">${escapeHtml(attachment.name)} <span class="attachment-size">${formatFileSize(attachment.size)}</span></a>`;
+}
+
+const WIKI_LINK_START = new RegExp(`^${WIKI_LINK.source}`);
+
+const wikiLink: TokenizerAndRendererExtension = {
+  name: "wikiLink",
+  level: "inline",
+  start: (src) => src.indexOf("[["),
+  tokenizer(src) {
+    const match = WIKI_LINK_START.exec(src);
+    if (!match) return;
+    return { type: "wikiLink", raw: match[0], title: match[1].trim(), label: (match[2] ?? match[1]).trim() };
+  },
+  renderer({ title, label }) {
+    const missing = noteTitles !== null && !noteTitles.has(normalizeTitle(title));
+    return `<a href="#" class="wiki-link${missing ? " wiki-link-missing" : ""}" data-note-title="${escapeHtml(title)}">${escapeHtml(label)}</a>`;
+  },
+};
+
+const marked = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    code({ text, lang }) {
+      const language = lang?.split(/\s/)[0];
+      const highlighted =
+        language && hljs.getLanguage(language)
+          ? hljs.highlight(text, { language }).value
+          : hljs.highlightAuto(text).value;
+      return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ""}">${highlighted}</code></pre>\n`;
+    },
+    // attachment: links point into the attachments store; anything else
+    // renders normally
+    image({ href, text }) {
+      const id = attachmentId(href);
+      return id === null ? false : renderAttachment(id, text, true);
+    },
+    link({ href, text }) {
+      const id = attachmentId(href);
+      return id === null ? false : renderAttachment(id, text, false);
+    },
+    // Task checkboxes are clickable in the preview; see toggleTaskItem
+    checkbox({ checked }) {
+      return `<input type="checkbox" class="task-checkbox"${checked ? " checked" : ""}> `;
+    },
+  },
+  extensions: [wikiLink],
+});
+
+// Open external links in a new tab without giving it access to this one
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+  if (node.tagName === "A" && /^https?:/i.test(node.getAttribute("href") ?? "")) {
+    node.setAttribute("target", "_blank");
+    node.setAttribute("rel", "noopener noreferrer");
+  }
+});
+
+// DOMPurify's default URI pattern plus blob:, which attachments render as
+const ALLOWED_URI = /^(?:(?:(?:f|ht)tps?|mailto|tel|callto|sms|cid|xmpp|matrix|blob):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i;
+
+export function renderMarkdown(content: string, options: RenderOptions = {}): string {
+  noteTitles = options.noteTitles ? new Set(options.noteTitles.map(normalizeTitle)) : null;
+  resolveAttachment = options.resolveAttachment;
+  try {
+    const html = marked.parse(content, { async: false });
+    return DOMPurify.sanitize(html, { ADD_ATTR: ["target", "download"], ALLOWED_URI_REGEXP: ALLOWED_URI });
+  } finally {
+    noteTitles = null;
+    resolveAttachment = undefined;
+  }
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const TASK_ITEM = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\])/;
+
+// Flip the `index`-th task list checkbox in the source, counting the same
+// way the rendered checkboxes are ordered (fenced code is skipped)
+export function toggleTaskItem(content: string, index: number): string {
+  let inFence = false;
+  let count = 0;
+  return content
+    .split("\n")
+    .map((line) => {
+      if (FENCE.test(line)) inFence = !inFence;
+      if (inFence || !TASK_ITEM.test(line)) return line;
+      if (count++ !== index) return line;
+      return line.replace(TASK_ITEM, (_, before: string, mark: string, after: string) =>
+        `${before}${mark === " " ? "x" : " "}${after}`
+      );
+    })
+    .join("\n");
+}
+
+// A plain-text excerpt for note lists and search snippets
+export function stripMarkdown(content: string): string {
+  return content
+    .replace(/```[\s\S]*?(```|$)/g, " ")
+    .replace(WIKI_LINK, (_, title: string, label?: string) => (label ?? title).trim())
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]\s+\[[ xX]\]|[-*+]|\d+[.)])\s+/gm, "")
+    .replace(/(\*\*|__|\*|_|~~|`)/g, "")
+    .replace(/^\s*\|?[-:| ]+\|?\s*$/gm, "")
+    .replace(/\|/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,124 @@
+import type { Note, NoteAttachment, NoteRevision } from "@/lib/stores";
+
+// Files attached to notes. The blobs live in their own store and notes refer
+// to them by id through the attachment: URL scheme, which the Markdown
+// renderer swaps for an object URL. Images are shown inline, anything else
+// as a download chip.
+
+export const ATTACHMENT_PROTOCOL = "attachment:";
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+const ATTACHMENT_LINK = /\]\(attachment:([\w-]+)\)/g;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+export const isImageAttachment = (attachment: Pick<NoteAttachment, "type">) => attachment.type.startsWith("image/");
+
+export function createAttachment(noteId: string, file: File): NoteAttachment {
+  return {
+    id: crypto.randomUUID(),
+    noteId,
+    // Pasted screenshots arrive as "image.png"; give them something findable
+    name: file.name && file.name !== "image.png" ? file.name : `pasted-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.png`,
+    type: file.type || "application/octet-stream",
+    size: file.size,
+    blob: file,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function attachmentMarkdown(attachment: NoteAttachment): string {
+  const label = attachment.name.replace(/[[\]]/g, "");
+  return `${isImageAttachment(attachment) ? "!" : ""}[${label}](${ATTACHMENT_PROTOCOL}${attachment.id})`;
+}
+
+export function findAttachmentIds(content: string): Set<string> {
+  return new Set([...content.matchAll(ATTACHMENT_LINK)].map(match => match[1]));
+}
+
+// Points each attachment: link somewhere else; `replace` returns the new
+// target, or null to leave the link as it is
+export const replaceAttachmentLinks = (content: string, replace: (id: string) => string | null) =>
+  content.replace(ATTACHMENT_LINK, (link, id: string) => {
+    const target = replace(id);
+    return target === null ? link : `](${target})`;
+  });
+
+// Attachments nothing refers to any more, e.g. after their link was deleted
+// from the text. `sources` are notes, revisions, templates and the like.
+export function getUnusedAttachments(attachments: NoteAttachment[], sources: Pick<Note, "content">[]): NoteAttachment[] {
+  const used = new Set<string>();
+  sources.forEach(source => findAttachmentIds(source.content).forEach(id => used.add(id)));
+  return attachments.filter(attachment => !used.has(attachment.id));
+}
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(",", 2);
+  const type = /^data:([^;]*)/.exec(header)?.[1] || "application/octet-stream";
+  const binary = atob(data ?? "");
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+// Backups are JSON, which can't hold Blobs, so attachments travel as data URLs
+export async function serializeAttachments(value: unknown): Promise<unknown> {
+  if (!Array.isArray(value)) return value;
+  return Promise.all(
+    (value as NoteAttachment[]).map(async ({ blob, ...attachment }) => ({ ...attachment, data: await blobToDataUrl(blob) }))
+  );
+}
+
+export function deserializeAttachments(data: unknown): unknown {
+  if (!Array.isArray(data)) return data;
+  return data.map(entry => {
+    if (typeof entry !== "object" || entry === null || typeof entry.data !== "string") return entry;
+    const { data: dataUrl, ...attachment } = entry;
+    return { ...attachment, blob: dataUrlToBlob(dataUrl) };
+  });
+}
+
+export interface NoteStorageUsage {
+  noteBytes: number;
+  revisionBytes: number;
+  attachmentBytes: number;
+  // Attachment totals per note, largest first
+  byNote: { noteId: string; bytes: number; count: number }[];
+}
+
+const textBytes = (text: string) => new TextEncoder().encode(text).length;
+
+export function getNoteStorageUsage(
+  notes: Note[],
+  revisions: NoteRevision[],
+  attachments: NoteAttachment[]
+): NoteStorageUsage {
+  const byNote = new Map<string, { noteId: string; bytes: number; count: number }>();
+  attachments.forEach(attachment => {
+    const entry = byNote.get(attachment.noteId) ?? { noteId: attachment.noteId, bytes: 0, count: 0 };
+    entry.bytes += attachment.size;
+    entry.count += 1;
+    byNote.set(attachment.noteId, entry);
+  });
+
+  return {
+    noteBytes: notes.reduce((sum, note) => sum + textBytes(note.title) + textBytes(note.content), 0),
+    revisionBytes: revisions.reduce((sum, revision) => sum + textBytes(revision.title) + textBytes(revision.content), 0),
+    attachmentBytes: attachments.reduce((sum, attachment) => sum + attachment.size, 0),
+    byNote: [...byNote.values()].sort((a, b) => b.bytes - a.bytes),
+  };
+}
@@ -0,0 +1,131 @@
+import { getNotebookPath } from "@/lib/notebooks";
+import type { EncryptedData, Note, NoteAttachment, Notebook } from "@/lib/stores";
+
+// Passphrase encryption for notes, using WebCrypto only. A passphrase is
+// stretched with PBKDF2-SHA256 into an AES-GCM key; each encryption gets a
+// fresh random IV, and GCM's tag makes a wrong passphrase fail loudly rather
+// than produce garbage. Keys are never stored, only held while unlocked.
+//
+// An encrypted note keeps its title (so it can be listed and linked to) and
+// its metadata in the clear; content and tags go into `encryption`. Its
+// attachments are encrypted with the same key, blob by blob.
+
+const PBKDF2_ITERATIONS = 600_000;
+const NOTEBOOK_CHECK = "productivity-hub-notebook";
+
+export type KeyParams = Pick<EncryptedData, "salt" | "iterations">;
+
+// What an encrypted note hides
+export type NoteSecret = Pick<Note, "content" | "tags">;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // In chunks, as spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export const newKeyParams = (): KeyParams => ({
+  salt: toBase64(crypto.getRandomValues(new Uint8Array(16))),
+  iterations: PBKDF2_ITERATIONS,
+});
+
+export async function deriveKey(passphrase: string, { salt, iterations }: KeyParams): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(salt), iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function encryptValue(key: CryptoKey, params: KeyParams, value: unknown): Promise<EncryptedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { salt: params.salt, iterations: params.iterations, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+// Rejects when the key is wrong or the data was tampered with
+async function decryptValue(key: CryptoKey, encrypted: EncryptedData): Promise<unknown> {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(encrypted.iv) },
+    key,
+    fromBase64(encrypted.data)
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+// The key for `encrypted`, or null if the passphrase is wrong
+export async function unlockKey(passphrase: string, encrypted: EncryptedData): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, encrypted);
+  try {
+    await decryptValue(key, encrypted);
+    return key;
+  } catch {
+    return null;
+  }
+}
+
+export const createNotebookCheck = (key: CryptoKey, params: KeyParams) => encryptValue(key, params, NOTEBOOK_CHECK);
+
+export async function encryptNote(note: Note, secret: NoteSecret, key: CryptoKey, params: KeyParams): Promise<Note> {
+  const encryption = await encryptValue(key, params, { content: secret.content, tags: secret.tags });
+  return { ...note, content: "", tags: [], encryption };
+}
+
+export async function decryptNote(note: Note, key: CryptoKey): Promise<NoteSecret> {
+  if (!note.encryption) return { content: note.content, tags: note.tags };
+  const value = (await decryptValue(key, note.encryption)) as Partial<NoteSecret>;
+  return { content: value.content ?? "", tags: value.tags ?? [] };
+}
+
+export async function encryptAttachment(
+  attachment: NoteAttachment,
+  key: CryptoKey,
+  params: KeyParams
+): Promise<NoteAttachment> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, await attachment.blob.arrayBuffer());
+  return {
+    ...attachment,
+    blob: new Blob([data], { type: "application/octet-stream" }),
+    encryption: { salt: params.salt, iterations: params.iterations, iv: toBase64(iv) },
+  };
+}
+
+// Rejects when the key is wrong or the blob was tampered with
+export async function decryptAttachment(attachment: NoteAttachment, key: CryptoKey): Promise<NoteAttachment> {
+  if (!attachment.encryption) return attachment;
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(attachment.encryption.iv) },
+    key,
+    await attachment.blob.arrayBuffer()
+  );
+  return { ...attachment, blob: new Blob([data], { type: attachment.type }), encryption: undefined };
+}
+
+// The encrypted notebook a note in `notebookId` is covered by: the nearest
+// encrypted notebook on its path, if any
+export function getEncryptedNotebook(notebooks: Notebook[], notebookId: string | undefined | null) {
+  if (!notebookId) return undefined;
+  return getNotebookPath(notebooks, notebookId)
+    .reverse()
+    .find(notebook => notebook.encryption);
+}
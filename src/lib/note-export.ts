@@ -0,0 +1,447 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from "fflate";
+import { jsPDF } from "jspdf";
+import { escapeHtml, renderMarkdown } from "@/lib/markdown";
+import {
+  ATTACHMENT_PROTOCOL,
+  blobToDataUrl,
+  createAttachment,
+  findAttachmentIds,
+  isImageAttachment,
+  replaceAttachmentLinks,
+} from "@/lib/note-attachments";
+import { parseTags } from "@/lib/notebooks";
+import { encryptedDataSchema, type EncryptedData, type Note, type NoteAttachment } from "@/lib/stores";
+
+// Getting notes in and out of the browser. Markdown exports carry the note's
+// metadata as YAML front matter:
+//
+//   ---
+//   title: "Groceries"
+//   tags: ["home", "lists/weekly"]
+//   createdAt: 2024-05-01T09:30:00.000Z
+//   updatedAt: 2024-05-02T18:00:00.000Z
+//   ---
+//
+// Attachments are written to an attachments/ folder next to the notes, with
+// the links pointing there, so a note with attachments exports as a zip.
+// Importing reads the same layout back, from .md files, a folder or a zip.
+
+export interface ExportedFile {
+  name: string;
+  blob: Blob;
+}
+
+const ATTACHMENTS_DIR = "attachments";
+
+export function downloadFile({ name, blob }: ExportedFile) {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// A name that is safe on every common file system
+export const safeFileName = (name: string) =>
+  name
+    .replace(/[\\/:*?"<>|\t\r\n]/g, "-")
+    .replace(/^[\s.]+|[\s.]+$/g, "")
+    .slice(0, 100) || "Untitled";
+
+// Adds " (2)", " (3)"... before the extension until the path is unused
+function uniquePath(path: string, used: Set<string>): string {
+  const dot = path.lastIndexOf(".");
+  const hasExtension = dot > path.lastIndexOf("/") + 1;
+  const stem = hasExtension ? path.slice(0, dot) : path;
+  const extension = hasExtension ? path.slice(dot) : "";
+  let candidate = path;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem} (${n})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// Collects the files of one export. Attachments linked from several notes
+// are only written once.
+class ExportBundle {
+  private files: Zippable = {};
+  private usedPaths = new Set<string>();
+  private attachmentPaths = new Map<string, string>();
+  private attachmentsById: Map<string, NoteAttachment>;
+
+  constructor(attachments: NoteAttachment[]) {
+    this.attachmentsById = new Map(attachments.map(attachment => [attachment.id, attachment]));
+  }
+
+  get attachmentCount() {
+    return this.attachmentPaths.size;
+  }
+
+  attachment(id: string) {
+    return this.attachmentsById.get(id);
+  }
+
+  addText(name: string, text: string): string {
+    const path = uniquePath(name, this.usedPaths);
+    this.files[path] = strToU8(text);
+    return path;
+  }
+
+  // The attachment's path in the export, or null when it no longer exists
+  attachmentPath(id: string): string | null {
+    const attachment = this.attachmentsById.get(id);
+    if (!attachment) return null;
+    let path = this.attachmentPaths.get(id);
+    if (!path) {
+      path = uniquePath(`${ATTACHMENTS_DIR}/${safeFileName(attachment.name)}`, this.usedPaths);
+      this.attachmentPaths.set(id, path);
+    }
+    return path;
+  }
+
+  async toZip(): Promise<Blob> {
+    for (const [id, path] of this.attachmentPaths) {
+      const attachment = this.attachmentsById.get(id);
+      if (attachment) this.files[path] = new Uint8Array(await attachment.blob.arrayBuffer());
+    }
+    return new Blob([zipSync(this.files)], { type: "application/zip" });
+  }
+}
+
+// Percent-encoded, parentheses included, so the path can't end a Markdown link early
+const linkTarget = (path: string) => encodeURI(path).replace(/\(/g, "%28").replace(/\)/g, "%29");
+
+const yamlString = (value: string) => JSON.stringify(value);
+
+// Encrypted notes keep their ciphertext in the front matter, as a JSON
+// object (which is also valid YAML), and have no body
+export function noteToMarkdown(note: Note, content = note.content): string {
+  return [
+    "---",
+    `title: ${yamlString(note.title)}`,
+    `tags: [${note.tags.map(yamlString).join(", ")}]`,
+    `createdAt: ${note.createdAt}`,
+    `updatedAt: ${note.updatedAt}`,
+    ...(note.encryption ? [`encryption: ${JSON.stringify(note.encryption)}`] : []),
+    "---",
+    "",
+    content,
+  ].join("\n");
+}
+
+const markdownWithAttachments = (note: Note, bundle: ExportBundle) =>
+  noteToMarkdown(
+    note,
+    replaceAttachmentLinks(note.content, id => {
+      const path = bundle.attachmentPath(id);
+      return path && linkTarget(path);
+    })
+  );
+
+export async function exportNoteMarkdown(note: Note, attachments: NoteAttachment[]): Promise<ExportedFile> {
+  const bundle = new ExportBundle(attachments);
+  const name = safeFileName(note.title);
+  const markdown = markdownWithAttachments(note, bundle);
+  if (bundle.attachmentCount === 0) {
+    return { name: `${name}.md`, blob: new Blob([markdown], { type: "text/markdown" }) };
+  }
+  bundle.addText(`${name}.md`, markdown);
+  return { name: `${name}.zip`, blob: await bundle.toZip() };
+}
+
+export async function exportNotesZip(notes: Note[], attachments: NoteAttachment[]): Promise<ExportedFile> {
+  const bundle = new ExportBundle(attachments);
+  notes.forEach(note => bundle.addText(`${safeFileName(note.title)}.md`, markdownWithAttachments(note, bundle)));
+  return { name: `notes-${new Date().toISOString().slice(0, 10)}.zip`, blob: await bundle.toZip() };
+}
+
+// Styles for exported HTML and PDFs, scoped so rendering a PDF inside the
+// app doesn't restyle the page
+const EXPORT_CSS = `
+.note-export { max-width: 760px; margin: 0 auto; padding: 24px; background: #fff; color: #1f2328; font: 15px/1.6 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; }
+.note-export h1, .note-export h2, .note-export h3 { line-height: 1.25; margin: 1.2em 0 0.5em; }
+.note-export .note-meta { color: #59636e; font-size: 13px; margin: 0 0 1.5em; }
+.note-export .note-tag { display: inline-block; background: #eff2f5; border-radius: 4px; padding: 0 6px; margin-right: 4px; }
+.note-export a { color: #0969da; }
+.note-export img { max-width: 100%; }
+.note-export blockquote { margin: 0; padding-left: 1em; border-left: 4px solid #d1d9e0; color: #59636e; }
+.note-export code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 13px; background: #eff2f5; border-radius: 4px; padding: 1px 4px; }
+.note-export pre code { display: block; padding: 12px; overflow-x: auto; }
+.note-export table { border-collapse: collapse; }
+.note-export th, .note-export td { border: 1px solid #d1d9e0; padding: 4px 10px; }
+.note-export li:has(> input) { list-style: none; }
+.note-export .attachment-chip { border: 1px solid #d1d9e0; border-radius: 4px; padding: 0 6px; text-decoration: none; }
+.note-export .attachment-size, .note-export .attachment-missing { color: #59636e; font-size: 12px; }
+.note-export .hljs-keyword, .note-export .hljs-selector-tag, .note-export .hljs-built_in { color: #cf222e; }
+.note-export .hljs-string, .note-export .hljs-attr { color: #0a3069; }
+.note-export .hljs-comment { color: #59636e; font-style: italic; }
+.note-export .hljs-number, .note-export .hljs-literal { color: #0550ae; }
+.note-export .hljs-title, .note-export .hljs-function { color: #8250df; }
+`;
+
+// The note rendered for export. Images are embedded as data URLs; other
+// attachments link to their path in `bundle`.
+async function renderNoteArticle(note: Note, bundle: ExportBundle): Promise<string> {
+  const dataUrls = new Map<string, string>();
+  for (const id of findAttachmentIds(note.content)) {
+    const attachment = bundle.attachment(id);
+    if (attachment && isImageAttachment(attachment)) dataUrls.set(id, await blobToDataUrl(attachment.blob));
+  }
+
+  const body = renderMarkdown(note.content, {
+    resolveAttachment: id => {
+      const attachment = bundle.attachment(id);
+      if (!attachment) return undefined;
+      const { name, type, size } = attachment;
+      return { name, type, size, url: dataUrls.get(id) ?? linkTarget(bundle.attachmentPath(id) ?? "") };
+    },
+  });
+  const tags = note.tags.map(tag => `<span class="note-tag">${escapeHtml(tag)}</span>`).join("");
+  const dates = `Created ${new Date(note.createdAt).toLocaleDateString()} · Updated ${new Date(note.updatedAt).toLocaleDateString()}`;
+
+  return `<article class="note-export">
+<h1>${escapeHtml(note.title)}</h1>
+<p class="note-meta">${tags}${dates}</p>
+${body}
+</article>`;
+}
+
+export async function exportNoteHtml(note: Note, attachments: NoteAttachment[]): Promise<ExportedFile> {
+  const bundle = new ExportBundle(attachments);
+  const name = safeFileName(note.title);
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(note.title)}</title>
+<style>${EXPORT_CSS}</style>
+</head>
+<body>
+${await renderNoteArticle(note, bundle)}
+</body>
+</html>
+`;
+  // Only non-image attachments need files next to the page
+  if (bundle.attachmentCount === 0) {
+    return { name: `${name}.html`, blob: new Blob([html], { type: "text/html" }) };
+  }
+  bundle.addText(`${name}.html`, html);
+  return { name: `${name}.zip`, blob: await bundle.toZip() };
+}
+
+export async function exportNotePdf(note: Note, attachments: NoteAttachment[]): Promise<ExportedFile> {
+  const article = await renderNoteArticle(note, new ExportBundle(attachments));
+  const pdf = new jsPDF({ unit: "pt", format: "a4" });
+  const margin = 36;
+  const windowWidth = 800;
+
+  // The returned worker settles after rendering, so a failure rejects instead of hanging
+  await pdf.html(`<div style="width: ${windowWidth}px"><style>${EXPORT_CSS}</style>${article}</div>`, {
+    margin,
+    autoPaging: "text",
+    width: pdf.internal.pageSize.getWidth() - margin * 2,
+    windowWidth,
+  });
+
+  return { name: `${safeFileName(note.title)}.pdf`, blob: pdf.output("blob") };
+}
+
+// Front matter
+
+const FRONT_MATTER = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+function unquote(value: string): string {
+  const text = value.trim();
+  if (text.startsWith('"') && text.endsWith('"') && text.length > 1) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (text.startsWith("'") && text.endsWith("'") && text.length > 1) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text;
+}
+
+// Splits a flow sequence like [a, "b, c"] without breaking quoted commas
+function parseFlowList(value: string): string[] {
+  return (value.slice(1, -1).match(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+/g) ?? [])
+    .map(unquote)
+    .filter(Boolean);
+}
+
+// Reads the simple YAML front matter notes apps write: scalars, flow lists
+// ([a, b]) and block lists ("- a" lines). Anything fancier is ignored.
+export function parseFrontMatter(text: string): { data: Record<string, string | string[]>; body: string } {
+  const match = FRONT_MATTER.exec(text);
+  if (!match) return { data: {}, body: text.replace(/^\uFEFF/, "") };
+
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+    const entry = /^([\w-]+)\s*:\s*(.*)$/.exec(line);
+    if (!entry) continue;
+    const [, key, value] = entry;
+    listKey = null;
+    if (value.trim() === "") {
+      data[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value.trim())) {
+      data[key] = parseFlowList(value.trim());
+    } else {
+      data[key] = unquote(value);
+    }
+  }
+  return { data, body: text.slice(match[0].length) };
+}
+
+const firstValue = (data: Record<string, string | string[]>, keys: string[]) => {
+  for (const key of keys) {
+    const value = data[key];
+    const text = Array.isArray(value) ? value[0] : value;
+    if (text) return text;
+  }
+  return undefined;
+};
+
+function parseEncryption(value: string | string[] | undefined): EncryptedData | undefined {
+  if (typeof value !== "string") return undefined;
+  try {
+    const result = encryptedDataSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const toIsoDate = (value: string | undefined) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// A note from a Markdown file. Other apps' names for the dates are accepted
+// too, and tags may be a list or a comma separated string.
+export function markdownToNote(fileName: string, text: string, now = new Date()): Note {
+  const { data, body } = parseFrontMatter(text);
+  const rawTags = data.tags ?? data.tag ?? [];
+  const tags = parseTags((Array.isArray(rawTags) ? rawTags : [rawTags]).join(",").replace(/(^|,)\s*#/g, "$1"));
+  const createdAt = toIsoDate(firstValue(data, ["createdAt", "created", "date"])) ?? now.toISOString();
+  const encryption = parseEncryption(data.encryption);
+
+  return {
+    id: crypto.randomUUID(),
+    title: firstValue(data, ["title"])?.trim() || fileName.replace(/^.*\//, "").replace(/\.(md|markdown)$/i, ""),
+    content: encryption ? "" : body.replace(/^\r?\n/, ""),
+    tags: encryption ? [] : tags,
+    encryption,
+    pinned: false,
+    archived: false,
+    createdAt,
+    updatedAt: toIsoDate(firstValue(data, ["updatedAt", "updated", "modified"])) ?? createdAt,
+  };
+}
+
+// Import
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  zip: "application/zip",
+  mp3: "audio/mpeg",
+  mp4: "video/mp4",
+};
+
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+// Markdown links and images with a relative target, e.g. ](attachments/a.png)
+const RELATIVE_LINK = /(\]\()([^)\s]+)((?:\s+"[^"]*")?\))/g;
+
+// Resolves `href` against the folder of the file at `from`
+function resolvePath(from: string, href: string): string | null {
+  if (/^[a-z][a-z\d+.-]*:/i.test(href) || href.startsWith("#") || href.startsWith("/")) return null;
+  let decoded: string;
+  try {
+    decoded = decodeURI(href.split("#")[0]);
+  } catch {
+    return null;
+  }
+  const parts = from.split("/").slice(0, -1);
+  for (const part of decoded.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part !== "." && part !== "") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+export interface ImportedNotes {
+  notes: Note[];
+  attachments: NoteAttachment[];
+}
+
+// Reads .md files, the files of a picked folder, or zips of either. Files
+// the notes link to relatively become attachments.
+export async function importMarkdownFiles(files: File[]): Promise<ImportedNotes> {
+  const entries = new Map<string, Uint8Array>();
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (/\.zip$/i.test(file.name)) {
+      Object.entries(unzipSync(data)).forEach(([path, content]) => {
+        if (!path.endsWith("/") && !path.startsWith("__MACOSX/")) entries.set(path, content);
+      });
+    } else {
+      entries.set(file.webkitRelativePath || file.name, data);
+    }
+  }
+
+  const notes: Note[] = [];
+  const attachments: NoteAttachment[] = [];
+  const attachmentIds = new Map<string, string>();
+
+  for (const [path, data] of entries) {
+    if (!MARKDOWN_FILE.test(path)) continue;
+    const note = markdownToNote(path, strFromU8(data));
+
+    note.content = note.content.replace(RELATIVE_LINK, (link, open: string, href: string) => {
+      const target = resolvePath(path, href);
+      const targetData = target && !MARKDOWN_FILE.test(target) ? entries.get(target) : undefined;
+      if (!target || !targetData) return link;
+
+      let id = attachmentIds.get(target);
+      if (!id) {
+        const name = target.replace(/^.*\//, "");
+        const type = MIME_TYPES[name.split(".").pop()?.toLowerCase() ?? ""] ?? "";
+        const attachment = createAttachment(note.id, new File([targetData], name, { type }));
+        attachments.push(attachment);
+        attachmentIds.set(target, attachment.id);
+        id = attachment.id;
+      }
+      // Titles are dropped; attachment links don't keep them
+      return `${open}${ATTACHMENT_PROTOCOL}${id})`;
+    });
+
+    notes.push(note);
+  }
+
+  return { notes, attachments };
+}
@@ -0,0 +1,128 @@
+import { differenceInCalendarDays, format, startOfWeek } from "date-fns";
+import type { Note, NoteHistorySettings, NoteRevision } from "@/lib/stores";
+
+// Note revisions: every save appends a snapshot, and the retention setting
+// decides which older snapshots are dropped afterwards.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Thinning keeps every revision this recent, one per day up to a month old
+// and one per week beyond that
+const THIN_KEEP_ALL_MS = DAY_MS;
+const THIN_DAILY_DAYS = 30;
+
+export const snapshotNote = (note: Note, savedAt: string, restoredFrom?: string): NoteRevision => ({
+  id: crypto.randomUUID(),
+  noteId: note.id,
+  title: note.title,
+  content: note.content,
+  tags: note.tags,
+  savedAt,
+  restoredFrom,
+});
+
+// A note's revisions, newest first
+export const getNoteRevisions = (revisions: NoteRevision[], noteId: string) =>
+  revisions.filter(revision => revision.noteId === noteId).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+
+function thinRevisions(newestFirst: NoteRevision[], now: Date): NoteRevision[] {
+  const seenBuckets = new Set<string>();
+  return newestFirst.filter((revision, index) => {
+    const savedAt = new Date(revision.savedAt);
+    if (index === 0 || now.getTime() - savedAt.getTime() < THIN_KEEP_ALL_MS) return true;
+
+    const bucket =
+      differenceInCalendarDays(now, savedAt) <= THIN_DAILY_DAYS
+        ? `day:${format(savedAt, "yyyy-MM-dd")}`
+        : `week:${format(startOfWeek(savedAt), "yyyy-MM-dd")}`;
+    if (seenBuckets.has(bucket)) return false;
+    seenBuckets.add(bucket);
+    return true;
+  });
+}
+
+// Drop the revisions the retention setting no longer keeps, note by note
+export function applyRetention(revisions: NoteRevision[], settings: NoteHistorySettings, now = new Date()): NoteRevision[] {
+  if (settings.retention === "all") return revisions;
+
+  const kept = new Set<string>();
+  const noteIds = new Set(revisions.map(revision => revision.noteId));
+  noteIds.forEach(noteId => {
+    const newestFirst = getNoteRevisions(revisions, noteId);
+    const keep =
+      settings.retention === "last" ? newestFirst.slice(0, Math.max(1, settings.keepLast)) : thinRevisions(newestFirst, now);
+    keep.forEach(revision => kept.add(revision.id));
+  });
+  return revisions.filter(revision => kept.has(revision.id));
+}
+
+// Record a save. Notes written before history existed get their previous
+// state recorded first, so the first save can still be undone.
+export function recordRevision(
+  revisions: NoteRevision[],
+  previous: Note,
+  saved: Note,
+  settings: NoteHistorySettings,
+  restoredFrom?: string
+): NoteRevision[] {
+  const added: NoteRevision[] = [];
+  if (!revisions.some(revision => revision.noteId === previous.id)) {
+    added.push(snapshotNote(previous, previous.updatedAt));
+  }
+  added.push(snapshotNote(saved, saved.updatedAt, restoredFrom));
+  return applyRetention([...revisions, ...added], settings);
+}
+
+export interface DiffLine {
+  kind: "same" | "added" | "removed";
+  text: string;
+}
+
+// Line-level diff from `before` to `after` via longest common subsequence.
+// The shared head and tail are trimmed first, which keeps the table small
+// for the usual case of a few edited lines.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const oldLines = a.slice(head, a.length - tail);
+  const newLines = b.slice(head, b.length - tail);
+  const rows = oldLines.length + 1;
+  const cols = newLines.length + 1;
+
+  // lcs[i * cols + j] is the LCS length of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      middle.push({ kind: "same", text: oldLines[i] });
+      i++;
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+      middle.push({ kind: "removed", text: oldLines[i++] });
+    } else {
+      middle.push({ kind: "added", text: newLines[j++] });
+    }
+  }
+
+  return [
+    ...a.slice(0, head).map(text => ({ kind: "same" as const, text })),
+    ...middle,
+    ...a.slice(a.length - tail).map(text => ({ kind: "same" as const, text })),
+  ];
+}
@@ -0,0 +1,360 @@
+import { stripMarkdown } from "@/lib/markdown";
+import type { Note } from "@/lib/stores";
+
+// Full-text search over notes. Titles, tags and content are split into words,
+// folded (lowercase, no accents) and stemmed, and an inverted index maps each
+// stem to the notes it occurs in and how often. A query matches notes
+// containing all its words, each also as the start of a longer word (so
+// results come up while typing), and its "quoted phrases" word for word.
+// Results are ranked with BM25, counting title and tag matches higher.
+
+type Field = "title" | "tags" | "content";
+
+const FIELDS: Field[] = ["title", "tags", "content"];
+const FIELD_WEIGHTS: Record<Field, number> = { title: 3, tags: 2, content: 1 };
+const PREFIX_WEIGHT = 0.5;
+const PHRASE_BONUS = 2;
+// Prefixes shorter than this only match whole words
+const MIN_PREFIX_LENGTH = 2;
+// A prefix matches at most this many words, the ones in the most notes
+const MAX_PREFIX_EXPANSIONS = 50;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export interface Token {
+  // Folded but not stemmed, as prefixes match against it
+  word: string;
+  term: string;
+  start: number;
+  end: number;
+}
+
+const foldWord = (word: string) => word.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+const CVC_ENDING = /[^aeiou][aeiouy][^aeiouwxy]$/;
+
+// A light English stemmer: drops plural, -ing, -ed and -ly endings so
+// "notes", "noting" and "noted" all index as "note". Crude next to Porter's,
+// but queries are stemmed the same way, so all it has to do is bring the
+// forms of a word together.
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith("sses")) result = result.slice(0, -2);
+  else if (result.endsWith("ies") && result.length > 4) result = `${result.slice(0, -3)}y`;
+  else if (/[^su]s$/.test(result) && !result.endsWith("is")) result = result.slice(0, -1);
+
+  const suffix = ["ing", "ed", "ly"].find(
+    ending => result.endsWith(ending) && /[aeiouy]/.test(result.slice(0, -ending.length))
+  );
+  if (suffix && result.length - suffix.length >= 3) {
+    result = result.slice(0, -suffix.length);
+    if (suffix !== "ly") {
+      // "running" -> "run", "hoping" -> "hope", "hopping" -> "hop"
+      if (/(bb|dd|ff|gg|mm|nn|pp|rr|tt)$/.test(result)) result = result.slice(0, -1);
+      else if (result.length === 3 && CVC_ENDING.test(result)) result += "e";
+    }
+  }
+
+  // "write" and "writing" both end up as "writ"
+  if (result.endsWith("e") && result.length > 4) result = result.slice(0, -1);
+  return result;
+}
+
+// Folding and stemming are the slow part of indexing, and notes reuse words
+// a lot, so the results are cached (and dropped when there are too many)
+const MAX_CACHED_WORDS = 50_000;
+const wordCache = new Map<string, { word: string; term: string }>();
+
+function analyzeWord(text: string) {
+  let analyzed = wordCache.get(text);
+  if (!analyzed) {
+    if (wordCache.size >= MAX_CACHED_WORDS) wordCache.clear();
+    const word = foldWord(text);
+    analyzed = { word, term: stem(word) };
+    wordCache.set(text, analyzed);
+  }
+  return analyzed;
+}
+
+export function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD), match => {
+    const { word, term } = analyzeWord(match[0]);
+    const start = match.index ?? 0;
+    return { word, term, start, end: start + match[0].length };
+  });
+}
+
+export interface SearchQuery {
+  // Words matched anywhere in a note; `prefix` ones also match longer words
+  words: { word: string; term: string; prefix: boolean }[];
+  // Stems that must occur one after another in the same field
+  phrases: string[][];
+}
+
+export function parseQuery(query: string): SearchQuery {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const terms = tokenize(phrase).map(token => token.term);
+    if (terms.length > 0) phrases.push(terms);
+    return " ";
+  });
+
+  const words = tokenize(rest).map(({ word, term }) => ({
+    word,
+    term,
+    prefix: word.length >= MIN_PREFIX_LENGTH,
+  }));
+  return { words, phrases };
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// Decides which words of a text to highlight for a query
+export type WordMatcher = (token: Token) => boolean;
+
+export function createWordMatcher({ words, phrases }: SearchQuery): WordMatcher {
+  const terms = new Set([...words.map(word => word.term), ...phrases.flat()]);
+  const prefixes = words.filter(word => word.prefix).map(word => word.word);
+  return token => terms.has(token.term) || prefixes.some(prefix => token.word.startsWith(prefix));
+}
+
+function toSegments(text: string, tokens: Token[], matches: WordMatcher, from = 0, to = text.length) {
+  const segments: TextSegment[] = [];
+  let position = from;
+  for (const token of tokens) {
+    if (token.start < from || token.end > to || !matches(token)) continue;
+    if (token.start > position) segments.push({ text: text.slice(position, token.start), match: false });
+    segments.push({ text: text.slice(token.start, token.end), match: true });
+    position = token.end;
+  }
+  if (position < to) segments.push({ text: text.slice(position, to), match: false });
+  return segments;
+}
+
+export const highlightText = (text: string, matches: WordMatcher) => toSegments(text, tokenize(text), matches);
+
+// About `length` characters of a note's text around its first match, with
+// matching words highlighted. Falls back to the start of the note.
+export function getSnippet(content: string, matches: WordMatcher, length = 160): TextSegment[] {
+  const text = stripMarkdown(content);
+  const tokens = tokenize(text);
+  const first = tokens.find(matches);
+
+  let start = 0;
+  if (first && first.end > length) {
+    // Start at a word boundary a little before the match
+    start = tokens.find(token => token.start >= first.start - length / 3)?.start ?? first.start;
+  }
+  const end = Math.min(text.length, start + length);
+
+  const segments = toSegments(text, tokens, matches, start, end);
+  if (start > 0) segments.unshift({ text: "…", match: false });
+  if (end < text.length) segments.push({ text: "…", match: false });
+  return segments;
+}
+
+interface IndexedNote {
+  title: string;
+  content: string;
+  tags: string[];
+  terms: Set<string>;
+  words: Set<string>;
+  length: number;
+}
+
+export interface SearchResults {
+  // Relevance by note id; only matching notes are in here
+  scores: Map<string, number>;
+  matches: WordMatcher;
+}
+
+// Kept across renders and brought up to date with `update`, which only
+// re-indexes notes whose title, content or tags changed.
+export class NoteSearchIndex {
+  // Stem -> note id -> occurrences, weighted by field. Positions aren't kept,
+  // as they'd multiply the memory used; phrases are checked against the text.
+  private postings = new Map<string, Map<string, number>>();
+  private notes = new Map<string, IndexedNote>();
+  // How many notes each (unstemmed) word occurs in, for prefix matching
+  private wordCounts = new Map<string, number>();
+  private sortedWords: string[] | null = null;
+  private totalLength = 0;
+
+  update(notes: Pick<Note, "id" | "title" | "content" | "tags">[]) {
+    const ids = new Set<string>();
+    for (const note of notes) {
+      ids.add(note.id);
+      const indexed = this.notes.get(note.id);
+      if (
+        indexed &&
+        indexed.title === note.title &&
+        indexed.content === note.content &&
+        indexed.tags.length === note.tags.length &&
+        indexed.tags.every((tag, i) => tag === note.tags[i])
+      ) {
+        continue;
+      }
+      if (indexed) this.remove(note.id);
+      this.add(note);
+    }
+    for (const id of this.notes.keys()) {
+      if (!ids.has(id)) this.remove(id);
+    }
+  }
+
+  private add(note: Pick<Note, "id" | "title" | "content" | "tags">) {
+    const texts: Record<Field, string> = { title: note.title, tags: note.tags.join(" "), content: note.content };
+    const terms = new Set<string>();
+    const words = new Set<string>();
+    let length = 0;
+
+    for (const field of FIELDS) {
+      const tokens = tokenize(texts[field]);
+      length += tokens.length * FIELD_WEIGHTS[field];
+      for (const { word, term } of tokens) {
+        terms.add(term);
+        words.add(word);
+        let byNote = this.postings.get(term);
+        if (!byNote) {
+          byNote = new Map();
+          this.postings.set(term, byNote);
+        }
+        byNote.set(note.id, (byNote.get(note.id) ?? 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+
+    words.forEach(word => {
+      const count = this.wordCounts.get(word) ?? 0;
+      if (count === 0) this.sortedWords = null;
+      this.wordCounts.set(word, count + 1);
+    });
+    this.notes.set(note.id, { title: note.title, content: note.content, tags: note.tags, terms, words, length });
+    this.totalLength += length;
+  }
+
+  private remove(id: string) {
+    const indexed = this.notes.get(id);
+    if (!indexed) return;
+
+    indexed.terms.forEach(term => {
+      const byNote = this.postings.get(term);
+      byNote?.delete(id);
+      if (byNote?.size === 0) this.postings.delete(term);
+    });
+    indexed.words.forEach(word => {
+      const count = (this.wordCounts.get(word) ?? 1) - 1;
+      if (count > 0) {
+        this.wordCounts.set(word, count);
+      } else {
+        this.wordCounts.delete(word);
+        this.sortedWords = null;
+      }
+    });
+    this.notes.delete(id);
+    this.totalLength -= indexed.length;
+  }
+
+  // The stems of the indexed words starting with `prefix`, keeping those
+  // that occur in the most notes when there are too many
+  private expandPrefix(prefix: string): Set<string> {
+    if (!this.sortedWords) this.sortedWords = [...this.wordCounts.keys()].sort();
+    const words = this.sortedWords;
+
+    let low = 0;
+    let high = words.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (words[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+
+    let end = low;
+    while (end < words.length && words[end].startsWith(prefix)) end++;
+    const matches = words.slice(low, end);
+    if (matches.length > MAX_PREFIX_EXPANSIONS) {
+      matches.sort((a, b) => (this.wordCounts.get(b) ?? 0) - (this.wordCounts.get(a) ?? 0));
+    }
+    return new Set(matches.slice(0, MAX_PREFIX_EXPANSIONS).map(stem));
+  }
+
+  // BM25 score of `term` in every note containing it
+  private scoreTerm(term: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const byNote = this.postings.get(term);
+    if (!byNote) return scores;
+
+    const count = this.notes.size;
+    const averageLength = this.totalLength / count || 1;
+    const idf = Math.log(1 + (count - byNote.size + 0.5) / (byNote.size + 0.5));
+    byNote.forEach((frequency, id) => {
+      const length = this.notes.get(id)?.length ?? averageLength;
+      scores.set(id, (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * length) / averageLength)));
+    });
+    return scores;
+  }
+
+  private hasPhrase(id: string, terms: string[]): boolean {
+    const indexed = this.notes.get(id);
+    if (!indexed) return false;
+    return [indexed.title, indexed.tags.join(" "), indexed.content].some(text => {
+      const tokens = tokenize(text);
+      return tokens.some((_, start) => terms.every((term, offset) => tokens[start + offset]?.term === term));
+    });
+  }
+
+  // Notes matching every word and phrase of `query`; null for an empty query
+  search(query: string): SearchResults | null {
+    const parsed = parseQuery(query);
+    if (parsed.words.length === 0 && parsed.phrases.length === 0) return null;
+
+    // Scores by note for each word and phrase; a note must be in all of them
+    const parts: Map<string, number>[] = [];
+
+    for (const { term, word, prefix } of parsed.words) {
+      // A note's best match for the word counts, exact ones in full
+      const best = this.scoreTerm(term);
+      if (prefix) {
+        this.expandPrefix(word).forEach(expansion => {
+          if (expansion === term) return;
+          this.scoreTerm(expansion).forEach((score, id) => {
+            best.set(id, Math.max(best.get(id) ?? 0, score * PREFIX_WEIGHT));
+          });
+        });
+      }
+      parts.push(best);
+    }
+
+    for (const terms of parsed.phrases) {
+      const termScores = terms.map(term => this.scoreTerm(term));
+      const phraseScores = new Map<string, number>();
+      termScores[0].forEach((_, id) => {
+        if (!termScores.every(byNote => byNote.has(id)) || !this.hasPhrase(id, terms)) return;
+        const score = termScores.reduce((sum, byNote) => sum + (byNote.get(id) ?? 0), 0);
+        phraseScores.set(id, score * PHRASE_BONUS);
+      });
+      parts.push(phraseScores);
+    }
+
+    const scores = new Map<string, number>();
+    parts[0].forEach((_, id) => {
+      if (parts.every(part => part.has(id))) {
+        scores.set(id, parts.reduce((sum, part) => sum + (part.get(id) ?? 0), 0));
+      }
+    });
+    return { scores, matches: createWordMatcher(parsed) };
+  }
+}
+
+// The notes among `notes` that matched, most relevant first
+export const rankNotes = <T extends Pick<Note, "id">>(notes: T[], { scores }: SearchResults) =>
+  notes
+    .filter(note => scores.has(note.id))
+    .sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0));
@@ -0,0 +1,93 @@
+import { addDays, format, parseISO, set, startOfWeek } from "date-fns";
+import type { NoteTemplate } from "@/lib/stores";
+
+// Note templates and daily journal notes. Templates are plain text with
+// placeholders filled in when a note is created from them:
+//
+//   {{date}}     2024-05-01 (or {{date:MMMM d, yyyy}} for any date-fns format)
+//   {{time}}     14:30
+//   {{weekday}}  Wednesday
+//   {{cursor}}   where the cursor starts; removed from the note
+
+export const PLACEHOLDER_HELP = [
+  { placeholder: "{{date}}", description: "Today's date; {{date:MMMM d}} for another format" },
+  { placeholder: "{{time}}", description: "The current time" },
+  { placeholder: "{{weekday}}", description: "The day of the week" },
+  { placeholder: "{{cursor}}", description: "Where the cursor starts" },
+];
+
+export const JOURNAL_TEMPLATE_ID = "builtin-journal";
+
+export const BUILT_IN_TEMPLATES: NoteTemplate[] = [
+  {
+    id: JOURNAL_TEMPLATE_ID,
+    name: "Daily journal",
+    title: "{{date}} {{weekday}}",
+    content: "## Today\n\n- [ ] {{cursor}}\n\n## Notes\n\n\n## Gratitude\n\n",
+    tags: ["journal"],
+  },
+  {
+    id: "builtin-meeting",
+    name: "Meeting notes",
+    title: "Meeting {{date}}",
+    content:
+      "**Date:** {{date:EEEE, MMMM d, yyyy}} {{time}}\n**Attendees:** \n\n## Agenda\n\n- {{cursor}}\n\n## Notes\n\n\n## Action items\n\n- [ ] ",
+    tags: ["meetings"],
+  },
+];
+
+const PLACEHOLDER = /\{\{\s*(date|time|weekday)(?:\s*:([^}]+))?\s*\}\}/g;
+const CURSOR = "{{cursor}}";
+
+export function expandPlaceholders(text: string, now: Date): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string, pattern?: string) => {
+    if (name === "time") return format(now, "HH:mm");
+    if (name === "weekday") return format(now, "EEEE");
+    try {
+      return format(now, pattern?.trim() || "yyyy-MM-dd");
+    } catch {
+      // An invalid format is left as typed so it can be spotted and fixed
+      return placeholder;
+    }
+  });
+}
+
+export interface ExpandedTemplate {
+  title: string;
+  content: string;
+  tags: string[];
+  // Where {{cursor}} was in the content, if anywhere
+  cursor: number | null;
+}
+
+export function applyTemplate(template: NoteTemplate, now: Date): ExpandedTemplate {
+  const content = expandPlaceholders(template.content, now);
+  const cursorIndex = content.indexOf(CURSOR);
+  return {
+    title: expandPlaceholders(template.title, now).split(CURSOR).join("").trim() || template.name,
+    content: content.split(CURSOR).join(""),
+    tags: template.tags,
+    cursor: cursorIndex === -1 ? null : cursorIndex,
+  };
+}
+
+// Journal dates are local "yyyy-MM-dd" strings
+export const journalDateToDate = (date: string) => parseISO(date);
+
+// The journal day at the current time of day, for filling in its template
+export const journalMoment = (date: string, now: Date = new Date()) =>
+  set(journalDateToDate(date), { hours: now.getHours(), minutes: now.getMinutes() });
+
+// The seven days of the week containing `date`
+export function getJournalWeek(date: string): string[] {
+  const start = startOfWeek(journalDateToDate(date));
+  return Array.from({ length: 7 }, (_, index) => format(addDays(start, index), "yyyy-MM-dd"));
+}
+
+export const shiftJournalDate = (date: string, days: number) =>
+  format(addDays(journalDateToDate(date), days), "yyyy-MM-dd");
+
+export const formatJournalDay = (date: string) => {
+  const day = journalDateToDate(date);
+  return { weekday: format(day, "EEE"), day: format(day, "d"), month: format(day, "MMMM yyyy") };
+};
@@ -0,0 +1,142 @@
+import type { Note, Notebook } from "@/lib/stores";
+
+// Organising notes: nested notebooks, hierarchical tags ("work/clients/acme")
+// and the sidebar filter that combines them with pinning and archiving.
+
+// Drag payload types, so drop targets can tell notes from notebooks
+export const NOTE_DRAG_TYPE = "application/x-note-id";
+export const NOTEBOOK_DRAG_TYPE = "application/x-notebook-id";
+
+export interface NotebookNode {
+  notebook: Notebook;
+  children: NotebookNode[];
+  depth: number;
+}
+
+export function buildNotebookTree(notebooks: Notebook[]): NotebookNode[] {
+  const ids = new Set(notebooks.map(notebook => notebook.id));
+  const build = (parentId: string | undefined, depth: number): NotebookNode[] =>
+    notebooks
+      // Notebooks whose parent was deleted elsewhere show up at the top level
+      .filter(notebook => (parentId ? notebook.parentId === parentId : !notebook.parentId || !ids.has(notebook.parentId)))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(notebook => ({ notebook, depth, children: build(notebook.id, depth + 1) }));
+  return build(undefined, 0);
+}
+
+// Depth-first, for indented notebook pickers
+export function flattenNotebookTree(nodes: NotebookNode[]): NotebookNode[] {
+  return nodes.flatMap(node => [node, ...flattenNotebookTree(node.children)]);
+}
+
+// The notebook and everything nested inside it
+export function getNotebookSubtree(notebooks: Notebook[], notebookId: string): Set<string> {
+  const subtree = new Set([notebookId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    notebooks.forEach(notebook => {
+      if (notebook.parentId && subtree.has(notebook.parentId) && !subtree.has(notebook.id)) {
+        subtree.add(notebook.id);
+        grew = true;
+      }
+    });
+  }
+  return subtree;
+}
+
+// "Work / Clients / Acme"
+export function getNotebookPath(notebooks: Notebook[], notebookId: string | undefined): Notebook[] {
+  const path: Notebook[] = [];
+  let current = notebooks.find(notebook => notebook.id === notebookId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId = current.parentId;
+    current = notebooks.find(notebook => notebook.id === parentId);
+  }
+  return path;
+}
+
+// A notebook can't be moved into itself or one of its own descendants
+export const canMoveNotebook = (notebooks: Notebook[], notebookId: string, parentId: string | undefined) =>
+  !parentId || !getNotebookSubtree(notebooks, notebookId).has(parentId);
+
+// Trim each level and drop empty ones: " work//clients/ " -> "work/clients"
+export const normalizeTag = (tag: string) =>
+  tag
+    .split("/")
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join("/");
+
+export const parseTags = (input: string) => [
+  ...new Set(input.split(",").map(normalizeTag).filter(Boolean)),
+];
+
+// True when `tag` is `filter` or nested below it
+export const tagMatches = (tag: string, filter: string) =>
+  tag.toLowerCase() === filter.toLowerCase() || tag.toLowerCase().startsWith(`${filter.toLowerCase()}/`);
+
+export interface TagNode {
+  // The full path, usable as a filter
+  tag: string;
+  name: string;
+  // Notes tagged with this tag or anything below it
+  count: number;
+  children: TagNode[];
+}
+
+export function buildTagTree(notes: Note[]): TagNode[] {
+  const root: TagNode[] = [];
+  const noteIdsByTag = new Map<string, Set<string>>();
+
+  notes.forEach(note => {
+    note.tags.map(normalizeTag).filter(Boolean).forEach(tag => {
+      const parts = tag.split("/");
+      let level = root;
+      parts.forEach((name, index) => {
+        const path = parts.slice(0, index + 1).join("/");
+        let node = level.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+        if (!node) {
+          node = { tag: path, name, count: 0, children: [] };
+          level.push(node);
+        }
+        const noteIds = noteIdsByTag.get(node.tag) ?? new Set<string>();
+        noteIds.add(note.id);
+        noteIdsByTag.set(node.tag, noteIds);
+        level = node.children;
+      });
+    });
+  });
+
+  const finish = (nodes: TagNode[]): TagNode[] =>
+    nodes
+      .map(node => ({ ...node, count: noteIdsByTag.get(node.tag)?.size ?? 0, children: finish(node.children) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  return finish(root);
+}
+
+export type NoteScope = "all" | "pinned" | "archived";
+
+export interface NoteFilter {
+  scope: NoteScope;
+  notebookId: string | null;
+  tag: string | null;
+  // Not applied by filterNotes; the page runs it through the search index
+  search: string;
+}
+
+export function filterNotes(notes: Note[], notebooks: Notebook[], filter: NoteFilter): Note[] {
+  const notebookIds = filter.notebookId ? getNotebookSubtree(notebooks, filter.notebookId) : null;
+  const tagFilter = filter.tag;
+
+  return notes.filter(note => {
+    if (filter.scope === "archived" ? !note.archived : note.archived) return false;
+    if (filter.scope === "pinned" && !note.pinned) return false;
+    if (notebookIds && !(note.notebookId && notebookIds.has(note.notebookId))) return false;
+    return !tagFilter || note.tags.some(tag => tagMatches(tag, tagFilter));
+  });
+}
+
+// Pinned notes first; otherwise the stored order is kept
+export const sortNotes = (notes: Note[]) => [...notes].sort((a, b) => Number(b.pinned) - Number(a.pinned));
@@ -0,0 +1,78 @@
+// System notifications, shown through the service worker when one is
+// registered so they stay clickable after the tab is backgrounded. Clicking
+// one focuses the app and opens `data.url`; clicking an action button posts
+// it back to the app (see the notificationclick handler in public/sw.js).
+
+export const OPEN_URL_MESSAGE = "open-url";
+export const NOTIFICATION_ACTION_MESSAGE = "notification-action";
+
+export interface OpenUrlMessage {
+  type: typeof OPEN_URL_MESSAGE;
+  url: string;
+}
+
+// Sent when one of a notification's action buttons is clicked
+export interface NotificationActionMessage {
+  type: typeof NOTIFICATION_ACTION_MESSAGE;
+  action: string;
+  data: NotificationData;
+}
+
+export interface NotificationData {
+  url: string;
+  [key: string]: unknown;
+}
+
+// Action buttons are only supported on service worker notifications and are
+// missing from the DOM typings
+interface NotificationButton {
+  action: string;
+  title: string;
+}
+
+export type NotificationPermissionState = NotificationPermission | "unsupported";
+
+export function getNotificationPermission(): NotificationPermissionState {
+  return "Notification" in window ? Notification.permission : "unsupported";
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (!("Notification" in window)) return "unsupported";
+  return Notification.requestPermission();
+}
+
+export async function showSystemNotification(
+  title: string,
+  options: { body?: string; tag?: string; data: NotificationData; actions?: NotificationButton[] }
+): Promise<boolean> {
+  if (getNotificationPermission() !== "granted") return false;
+
+  const notificationOptions: NotificationOptions = {
+    body: options.body,
+    tag: options.tag,
+    icon: "/pwa-192x192.png",
+    data: options.data,
+  };
+  // The Notification constructor rejects actions, so only the worker gets them
+  const workerOptions: NotificationOptions & { actions?: NotificationButton[] } = {
+    ...notificationOptions,
+    actions: options.actions,
+  };
+
+  try {
+    const registration = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, workerOptions);
+    } else {
+      const notification = new Notification(title, notificationOptions);
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    }
+    return true;
+  } catch (error) {
+    console.error("Failed to show notification:", error);
+    return false;
+  }
+}
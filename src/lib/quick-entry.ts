@@ -0,0 +1,443 @@
+import { addDays, addHours, addMinutes, addMonths, addWeeks, format, getDaysInMonth, isWeekend } from "date-fns";
+import type { RecurrenceRule, Task } from "@/lib/stores";
+
+// Natural-language quick entry shared by Reminders, TodoList and Calendar.
+// Phrases like "call Sam tomorrow at 3pm", "pay rent every 1st of the month"
+// or "standup weekdays 9:30 !high" are split into a title plus whatever
+// date, time, recurrence and priority they mention, along with any #tags and
+// a +project. Each recognised phrase is cut out of the text; what remains
+// becomes the title.
+
+export type Priority = Task["priority"];
+
+export interface ParsedEntry {
+  title: string;
+  // yyyy-MM-dd
+  date?: string;
+  // HH:mm
+  time?: string;
+  recurrence?: RecurrenceRule;
+  priority?: Priority;
+  tags?: string[];
+  project?: string;
+  // "every 2 weeks after completion" counts from when the task is done
+  repeatFrom?: Task["repeatFrom"];
+}
+
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Short forms double as ordinary words ("pack sun cream", "wed"), so on their
+// own only full names count as dates; after "on", "next" or "every" both do
+const FULL_WEEKDAY = "(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday)";
+const WEEKDAY = "(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues|tue|wed|thurs|thur|thu|fri|sat)";
+const MONTH =
+  "(?:january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)";
+const ORDINAL_SUFFIX = "(?:st|nd|rd|th)";
+const NTH_WORDS = ["first", "second", "third", "fourth", "last"];
+const NTH = "(?:first|second|third|fourth|last|1st|2nd|3rd|4th)";
+const UNIT = "(minute|min|hour|hr|day|week|month|year)s?";
+const EACH_MONTH = "(?:\\s+(?:day\\s+)?of\\s+(?:the|each|every)\\s+month)?";
+
+// Times of day implied by words like "tonight" or "in the morning"
+const PERIOD_TIMES: Record<string, string> = {
+  morning: "09:00",
+  afternoon: "15:00",
+  evening: "18:00",
+  tonight: "20:00",
+  night: "20:00",
+  noon: "12:00",
+  midnight: "00:00",
+};
+
+const weekdayIndex = (name: string) => WEEKDAY_NAMES.indexOf(name.slice(0, 3).toLowerCase());
+const monthIndex = (name: string) => MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase());
+const toDate = (date: Date) => format(date, "yyyy-MM-dd");
+const toTime = (date: Date) => format(date, "HH:mm");
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const parseCount = (value: string) => (/^(a|an|one)$/i.test(value) ? 1 : parseInt(value));
+
+function nthFromWord(word: string) {
+  const index = NTH_WORDS.indexOf(word.toLowerCase());
+  return index !== -1 ? index + 1 : parseInt(word);
+}
+
+// The next date (today included) with one of the given weekdays
+function nextWeekday(from: Date, days: number[]) {
+  let date = from;
+  while (!days.includes(date.getDay())) date = addDays(date, 1);
+  return date;
+}
+
+// The date in `month` on the `week`-th `weekday`; week 5 means the last one
+function nthWeekdayOfMonth(month: Date, weekday: number, week: number) {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  let day = 1 + ((weekday - first.getDay() + 7) % 7) + (week - 1) * 7;
+  while (day > getDaysInMonth(first)) day -= 7;
+  return new Date(month.getFullYear(), month.getMonth(), day);
+}
+
+function clampedDate(year: number, month: number, day: number) {
+  return new Date(year, month, Math.min(day, getDaysInMonth(new Date(year, month, 1))));
+}
+
+function parseClock(hourText: string, minuteText: string | undefined, meridiem: string | undefined) {
+  let hours = parseInt(hourText);
+  const minutes = minuteText ? parseInt(minuteText) : 0;
+  if (hours > 23 || minutes > 59) return undefined;
+
+  const suffix = meridiem?.toLowerCase();
+  if (suffix === "pm" && hours < 12) hours += 12;
+  if (suffix === "am" && hours === 12) hours = 0;
+  return `${pad(hours)}:${pad(minutes)}`;
+}
+
+interface Rule {
+  pattern: RegExp;
+  apply: (match: RegExpMatchArray, state: ParseState) => boolean | void;
+}
+
+interface ParseState {
+  now: Date;
+  date?: Date;
+  time?: string;
+  recurrence?: Omit<RecurrenceRule, "anchor">;
+  // The first occurrence a recurrence implies when no explicit date is given
+  recurrenceStart?: (time: string | undefined) => Date;
+  priority?: Priority;
+}
+
+// Recurrences go first so "every monday" isn't read as a one-off "monday".
+// A rule returning false leaves the text in place and is skipped.
+const RULES: Rule[] = [
+  {
+    pattern: new RegExp(`\\bevery\\s+(?:week\\s*day|work\\s*day)s?\\b|\\bweekdays\\b`, "i"),
+    apply: (_, state) => {
+      state.recurrence = { frequency: "weekdays", interval: 1 };
+      state.recurrenceStart = (time) => {
+        let date = state.now;
+        if (isWeekend(date) || (time && isPast(date, time, state.now))) date = addDays(date, 1);
+        while (isWeekend(date)) date = addDays(date, 1);
+        return date;
+      };
+    },
+  },
+  {
+    pattern: new RegExp(`\\bevery\\s+(${NTH})\\s+(${WEEKDAY})${EACH_MONTH}\\b`, "i"),
+    apply: (match, state) => {
+      const week = nthFromWord(match[1]);
+      const weekday = weekdayIndex(match[2]);
+      state.recurrence = { frequency: "monthly", interval: 1, monthlyBy: "weekday" };
+      state.recurrenceStart = (time) => {
+        const thisMonth = nthWeekdayOfMonth(state.now, weekday, week);
+        return isBeforeToday(thisMonth, time, state.now) ? nthWeekdayOfMonth(addMonths(state.now, 1), weekday, week) : thisMonth;
+      };
+    },
+  },
+  {
+    pattern: new RegExp(`\\bevery\\s+(${WEEKDAY}(?:\\s*(?:,|and|&)\\s*${WEEKDAY})*)\\b`, "i"),
+    apply: (match, state) => {
+      const days = [...new Set(match[1].split(/\s*(?:,|and|&)\s*/i).map(weekdayIndex))];
+      state.recurrence = { frequency: "weekly", interval: 1, daysOfWeek: days };
+      state.recurrenceStart = (time) => {
+        const today = state.now;
+        const start = time && isPast(today, time, state.now) ? addDays(today, 1) : today;
+        return nextWeekday(start, days);
+      };
+    },
+  },
+  {
+    pattern: new RegExp(`\\bevery\\s+(?:the\\s+)?(\\d{1,2})${ORDINAL_SUFFIX}${EACH_MONTH}\\b`, "i"),
+    apply: (match, state) => {
+      const day = parseInt(match[1]);
+      if (day < 1 || day > 31) return false;
+      state.recurrence = { frequency: "monthly", interval: 1, monthlyBy: "date" };
+      state.recurrenceStart = (time) => {
+        const thisMonth = clampedDate(state.now.getFullYear(), state.now.getMonth(), day);
+        if (!isBeforeToday(thisMonth, time, state.now)) return thisMonth;
+        const next = addMonths(state.now, 1);
+        return clampedDate(next.getFullYear(), next.getMonth(), day);
+      };
+    },
+  },
+  {
+    pattern: new RegExp(`\\bevery\\s+(${MONTH})\\s+(\\d{1,2})${ORDINAL_SUFFIX}?\\b`, "i"),
+    apply: (match, state) => {
+      const month = monthIndex(match[1]);
+      const day = parseInt(match[2]);
+      state.recurrence = { frequency: "yearly", interval: 1 };
+      state.recurrenceStart = (time) => {
+        const thisYear = clampedDate(state.now.getFullYear(), month, day);
+        return isBeforeToday(thisYear, time, state.now) ? clampedDate(state.now.getFullYear() + 1, month, day) : thisYear;
+      };
+    },
+  },
+  {
+    pattern: new RegExp(`\\bevery\\s+(\\d+|other)\\s+(hour|day|week|month|year)s?\\b`, "i"),
+    apply: (match, state) => {
+      const interval = match[1].toLowerCase() === "other" ? 2 : parseInt(match[1]);
+      if (!interval) return false;
+      state.recurrence = { ...frequencyFor(match[2]), interval };
+    },
+  },
+  {
+    pattern: /\bevery\s*(hour|day|week|month|year)\b|\b(hourly|daily|everyday|weekly|monthly|yearly|annually)\b/i,
+    apply: (match, state) => {
+      const word = (match[1] ?? match[2]).toLowerCase();
+      const unit = { hourly: "hour", daily: "day", everyday: "day", weekly: "week", monthly: "month", yearly: "year", annually: "year" }[word] ?? word;
+      state.recurrence = { ...frequencyFor(unit), interval: 1 };
+    },
+  },
+  {
+    pattern: new RegExp(`\\bin\\s+(\\d+|an?|one)\\s+${UNIT}\\b`, "i"),
+    apply: (match, state) => {
+      const count = parseCount(match[1]);
+      const unit = match[2].toLowerCase();
+      let target: Date;
+      if (unit.startsWith("min")) target = addMinutes(state.now, count);
+      else if (unit.startsWith("h")) target = addHours(state.now, count);
+      else if (unit === "day") target = addDays(state.now, count);
+      else if (unit === "week") target = addWeeks(state.now, count);
+      else if (unit === "month") target = addMonths(state.now, count);
+      else target = addMonths(state.now, 12 * count);
+
+      state.date = target;
+      if (unit.startsWith("min") || unit.startsWith("h")) state.time = toTime(target);
+    },
+  },
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/,
+    apply: (match, state) => {
+      const month = parseInt(match[2]) - 1;
+      const day = parseInt(match[3]);
+      if (!isValidDay(month, day, match[1])) return false;
+      state.date = new Date(parseInt(match[1]), month, day);
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(?:on\\s+)?(${MONTH})\\.?\\s+(\\d{1,2})${ORDINAL_SUFFIX}?(?:,?\\s+(\\d{4}))?\\b`, "i"),
+    apply: (match, state) => {
+      const month = monthIndex(match[1]);
+      const day = parseInt(match[2]);
+      if (!isValidDay(month, day, match[3])) return false;
+      state.date = upcomingDate(state.now, month, day, match[3]);
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})${ORDINAL_SUFFIX}?(?:\\s+of)?\\s+(${MONTH})(?:,?\\s+(\\d{4}))?\\b`, "i"),
+    apply: (match, state) => {
+      const month = monthIndex(match[2]);
+      const day = parseInt(match[1]);
+      if (!isValidDay(month, day, match[3])) return false;
+      state.date = upcomingDate(state.now, month, day, match[3]);
+    },
+  },
+  {
+    pattern: /\b(?:on\s+)?(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/,
+    apply: (match, state) => {
+      const month = parseInt(match[1]) - 1;
+      const day = parseInt(match[2]);
+      const year = match[3] && match[3].length === 2 ? `20${match[3]}` : match[3];
+      if (!isValidDay(month, day, year)) return false;
+      state.date = upcomingDate(state.now, month, day, year);
+    },
+  },
+  {
+    pattern: /\b(day after tomorrow|today|tonight|tomorrow|tmrw|tmr)\b/i,
+    apply: (match, state) => {
+      const word = match[1].toLowerCase();
+      if (word === "day after tomorrow") state.date = addDays(state.now, 2);
+      else if (word === "today" || word === "tonight") state.date = state.now;
+      else state.date = addDays(state.now, 1);
+      if (word === "tonight" && !state.time) state.time = PERIOD_TIMES.tonight;
+    },
+  },
+  {
+    pattern: /\bnext\s+(week|month)\b/i,
+    apply: (match, state) => {
+      state.date = match[1].toLowerCase() === "week" ? nextWeekday(addDays(state.now, 1), [1]) : addMonths(state.now, 1);
+    },
+  },
+  {
+    pattern: new RegExp(
+      `\\b(?:(?:on\\s+)?(?:next|this)\\s+(${WEEKDAY})|on\\s+(${WEEKDAY})|(${FULL_WEEKDAY}))\\b`,
+      "i"
+    ),
+    apply: (match, state) => {
+      const weekday = match[1] ?? match[2] ?? match[3];
+      state.date = nextWeekday(addDays(state.now, 1), [weekdayIndex(weekday)]);
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(?:on\\s+)?the\\s+(\\d{1,2})${ORDINAL_SUFFIX}\\b`, "i"),
+    apply: (match, state) => {
+      const day = parseInt(match[1]);
+      if (day < 1 || day > 31) return false;
+      const thisMonth = clampedDate(state.now.getFullYear(), state.now.getMonth(), day);
+      const next = addMonths(state.now, 1);
+      state.date = isBeforeToday(thisMonth, undefined, state.now) ? clampedDate(next.getFullYear(), next.getMonth(), day) : thisMonth;
+    },
+  },
+  {
+    pattern: /\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i,
+    apply: (match, state) => {
+      const time = parseClock(match[1], match[2], match[3]);
+      if (!time) return false;
+      state.time = time;
+    },
+  },
+  {
+    pattern: /\b(?:at\s+)?(\d{1,2}):(\d{2})\b/,
+    apply: (match, state) => {
+      const time = parseClock(match[1], match[2], undefined);
+      if (!time) return false;
+      state.time = time;
+    },
+  },
+  {
+    // A bare "at 3" means the afternoon for small hours
+    pattern: /\bat\s+(\d{1,2})\b/i,
+    apply: (match, state) => {
+      const hours = parseInt(match[1]);
+      if (hours > 23) return false;
+      state.time = parseClock(String(hours), undefined, hours >= 1 && hours <= 7 ? "pm" : undefined);
+    },
+  },
+  {
+    pattern: /\b(?:at\s+)?(noon|midnight)\b|\b(?:in\s+the\s+)?(morning|afternoon|evening)\b|\bat\s+(night)\b/i,
+    apply: (match, state) => {
+      state.time = PERIOD_TIMES[(match[1] ?? match[2] ?? match[3]).toLowerCase()];
+    },
+  },
+  {
+    pattern: /(?:^|\s)!(high|medium|med|low|h|m|l)\b|(?:^|\s)(!{1,3})(?=\s|$)/i,
+    apply: (match, state) => {
+      if (match[2]) {
+        state.priority = (["low", "medium", "high"] as const)[match[2].length - 1];
+        return;
+      }
+      const marker = match[1].toLowerCase();
+      state.priority = marker.startsWith("h") ? "high" : marker.startsWith("l") ? "low" : "medium";
+    },
+  },
+];
+
+function frequencyFor(unit: string): Pick<RecurrenceRule, "frequency" | "monthlyBy"> {
+  switch (unit.toLowerCase()) {
+    case "hour":
+      return { frequency: "hourly" };
+    case "week":
+      return { frequency: "weekly" };
+    case "month":
+      return { frequency: "monthly", monthlyBy: "date" };
+    case "year":
+      return { frequency: "yearly" };
+    default:
+      return { frequency: "daily" };
+  }
+}
+
+function isPast(date: Date, time: string, now: Date) {
+  return `${toDate(date)}T${time}` <= `${toDate(now)}T${toTime(now)}`;
+}
+
+// True when `date` (at `time`, if given) has already gone by
+function isBeforeToday(date: Date, time: string | undefined, now: Date) {
+  if (toDate(date) !== toDate(now)) return toDate(date) < toDate(now);
+  return time ? isPast(date, time, now) : false;
+}
+
+// A month/day without a year means its next occurrence
+// Whether `day` exists in `month` (0-based); without a year, Feb 29 counts
+function isValidDay(month: number, day: number, year?: string) {
+  if (month < 0 || month > 11 || day < 1) return false;
+  return day <= getDaysInMonth(new Date(year ? parseInt(year) : 2000, month, 1));
+}
+
+// The date in `year`, or else the next one that hasn't passed; Feb 29 waits
+// for a leap year. The day must exist (see isValidDay).
+function upcomingDate(now: Date, month: number, day: number, year: string | undefined) {
+  if (year) return new Date(parseInt(year), month, day);
+  let candidate = now.getFullYear();
+  while (!isValidDay(month, day, String(candidate)) || isBeforeToday(new Date(candidate, month, day), undefined, now)) {
+    candidate++;
+  }
+  return new Date(candidate, month, day);
+}
+
+export function parseQuickEntry(input: string, now: Date = new Date()): ParsedEntry {
+  const state: ParseState = { now };
+  const tags: string[] = [];
+  let project: string | undefined;
+  let text = ` ${input} `
+    .replace(/(^|\s)#([\w-]+)/g, (_, space: string, tag: string) => {
+      if (!tags.includes(tag)) tags.push(tag);
+      return space;
+    })
+    .replace(/(^|\s)\+([\w-]+)/g, (_, space: string, name: string) => {
+      project = name;
+      return space;
+    });
+
+  RULES.forEach((rule) => {
+    const match = text.match(rule.pattern);
+    if (!match || match.index === undefined) return;
+    if (rule.apply(match, state) === false) return;
+    text = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`;
+  });
+
+  const afterCompletion = /\b(?:after|from)\s+(?:completion|completing|done|finishing)\b/i;
+  const repeatFrom = state.recurrence && afterCompletion.test(text) ? "completion" : undefined;
+  if (repeatFrom) text = text.replace(afterCompletion, " ");
+
+  // "every 3 hours" with no start time starts one interval from now
+  if (state.recurrence?.frequency === "hourly" && !state.date && !state.time) {
+    const first = addHours(now, state.recurrence.interval);
+    state.date = first;
+    state.time = toTime(first);
+  }
+
+  let date = state.date;
+  if (!date && state.recurrence) {
+    date = state.recurrenceStart?.(state.time) ?? (state.time && isPast(now, state.time, now) ? addDays(now, 1) : now);
+  }
+  // A time on its own means its next occurrence
+  if (!date && state.time) {
+    date = isPast(now, state.time, now) ? addDays(now, 1) : now;
+  }
+
+  const parsed: ParsedEntry = {
+    title: text
+      .replace(/\s+/g, " ")
+      .trim()
+      // Connecting words left dangling once a date or time is cut out
+      .replace(/\s+(at|on|by|from|due|every)$/i, "")
+      .replace(/^(on|at|by)\s+/i, ""),
+    date: date ? toDate(date) : undefined,
+    time: state.time,
+    priority: state.priority,
+    tags: tags.length > 0 ? tags : undefined,
+    project,
+  };
+
+  if (state.recurrence && parsed.date) {
+    parsed.recurrence = {
+      ...state.recurrence,
+      // Weekly rules without named days repeat on the first occurrence's day
+      daysOfWeek:
+        state.recurrence.frequency === "weekly"
+          ? state.recurrence.daysOfWeek ?? [new Date(`${parsed.date}T00:00`).getDay()]
+          : undefined,
+      anchor: `${parsed.date}T${parsed.time ?? "09:00"}`,
+    };
+    parsed.repeatFrom = repeatFrom;
+  }
+
+  return parsed;
+}
+
+// Combine a parsed date and time into a datetime-local string
+export function toDateTime(entry: ParsedEntry, defaultTime = "09:00") {
+  return entry.date ? `${entry.date}T${entry.time ?? defaultTime}` : undefined;
+}
@@ -0,0 +1,138 @@
+import {
+  addDays,
+  addHours,
+  addMonths,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  format,
+  getDaysInMonth,
+  isWeekend,
+  startOfMonth,
+} from "date-fns";
+import type { RecurrenceRule } from "@/lib/stores";
+
+// Recurrence rules and next-occurrence calculation, shared by anything that
+// repeats. Dates are handled as local datetime-local strings
+// ("2024-05-01T09:30"), the format the date inputs produce.
+
+export type Frequency = RecurrenceRule["frequency"];
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const ORDINALS = ["first", "second", "third", "fourth", "last"];
+
+// Guards against looping forever on a malformed rule
+const MAX_STEPS = 10000;
+
+export const formatLocalDateTime = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function createRecurrence(frequency: Frequency, anchor: string): RecurrenceRule {
+  const anchorDate = new Date(anchor);
+  return {
+    frequency,
+    interval: 1,
+    daysOfWeek: frequency === "weekly" ? [anchorDate.getDay()] : undefined,
+    monthlyBy: frequency === "monthly" ? "date" : undefined,
+    anchor,
+  };
+}
+
+function withTimeOf(date: Date, time: Date) {
+  const result = new Date(date);
+  result.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return result;
+}
+
+// The `monthsFromAnchor`-th month's occurrence. Days that don't exist in a
+// short month fall back to its last day (or last matching weekday).
+function monthlyOccurrence(rule: RecurrenceRule, anchor: Date, monthsFromAnchor: number) {
+  const month = addMonths(startOfMonth(anchor), monthsFromAnchor);
+
+  if (rule.frequency === "monthly" && rule.monthlyBy === "weekday") {
+    const week = Math.ceil(anchor.getDate() / 7);
+    const firstMatch = 1 + ((anchor.getDay() - month.getDay() + 7) % 7);
+    let day = firstMatch + (week - 1) * 7;
+    if (day > getDaysInMonth(month)) day -= 7;
+    return withTimeOf(new Date(month.getFullYear(), month.getMonth(), day), anchor);
+  }
+
+  const day = Math.min(anchor.getDate(), getDaysInMonth(month));
+  return withTimeOf(new Date(month.getFullYear(), month.getMonth(), day), anchor);
+}
+
+// The first occurrence strictly after `from`, assuming `from` is itself an
+// occurrence (or the rule's anchor).
+function stepAfter(rule: RecurrenceRule, from: Date): Date {
+  const anchor = new Date(rule.anchor);
+  const interval = Math.max(1, rule.interval);
+
+  switch (rule.frequency) {
+    case "hourly":
+      return addHours(from, interval);
+    case "daily":
+      return addDays(from, interval);
+    case "weekdays": {
+      let next = addDays(from, 1);
+      while (isWeekend(next)) next = addDays(next, 1);
+      return next;
+    }
+    case "weekly": {
+      const days = rule.daysOfWeek?.length ? rule.daysOfWeek : [anchor.getDay()];
+      for (let offset = 1; offset <= 7 * (interval + 1); offset++) {
+        const next = addDays(from, offset);
+        const weeksFromAnchor = differenceInCalendarWeeks(next, anchor);
+        if (days.includes(next.getDay()) && weeksFromAnchor % interval === 0) return next;
+      }
+      return addDays(from, 7 * interval);
+    }
+    case "monthly":
+    case "yearly": {
+      const step = rule.frequency === "yearly" ? 12 * interval : interval;
+      let months = Math.max(0, Math.floor(differenceInCalendarMonths(from, anchor) / step) * step);
+      let next = monthlyOccurrence(rule, anchor, months);
+      while (next <= from) {
+        months += step;
+        next = monthlyOccurrence(rule, anchor, months);
+      }
+      return next;
+    }
+  }
+}
+
+// The next occurrence after `current` that is also later than `after`, so
+// occurrences missed while the app was closed are skipped rather than
+// replayed one by one.
+export function getNextOccurrence(rule: RecurrenceRule, current: string, after: Date = new Date()): string {
+  let next = stepAfter(rule, new Date(current));
+  for (let steps = 0; next <= after && steps < MAX_STEPS; steps++) {
+    next = stepAfter(rule, next);
+  }
+  return formatLocalDateTime(next);
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const anchor = new Date(rule.anchor);
+  const every = (unit: string) => (rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`);
+
+  switch (rule.frequency) {
+    case "hourly":
+      return every("hour");
+    case "daily":
+      return every("day");
+    case "weekdays":
+      return "Every weekday";
+    case "weekly": {
+      const days = rule.daysOfWeek?.length ? rule.daysOfWeek : [anchor.getDay()];
+      const names = [...days].sort((a, b) => a - b).map((day) => WEEKDAY_LABELS[day]).join(", ");
+      return `${every("week")} on ${names}`;
+    }
+    case "monthly":
+      if (rule.monthlyBy === "weekday") {
+        const week = Math.min(Math.ceil(anchor.getDate() / 7), 5);
+        return `${every("month")} on the ${ORDINALS[week - 1]} ${format(anchor, "EEEE")}`;
+      }
+      return `${every("month")} on day ${anchor.getDate()}`;
+    case "yearly":
+      return `${every("year")} on ${format(anchor, "MMMM d")}`;
+  }
+}
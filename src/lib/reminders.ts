@@ -0,0 +1,73 @@
+import { getItemRoute } from "@/lib/search";
+import { getNextOccurrence } from "@/lib/recurrence";
+import type { Reminder } from "@/lib/stores";
+
+// Reminders more than this late were missed (the app was closed or asleep)
+// and are announced as such when delivered.
+export const MISSED_AFTER_MS = 60 * 1000;
+
+export const SNOOZE_OPTIONS = [
+  { minutes: 5, label: "5 min" },
+  { minutes: 10, label: "10 min" },
+  { minutes: 60, label: "1 hour" },
+];
+
+export const reminderTime = (reminder: Reminder) => new Date(reminder.datetime).getTime();
+
+const snoozeTime = (reminder: Reminder) =>
+  reminder.snoozedUntil ? new Date(reminder.snoozedUntil).getTime() : null;
+
+// Every time the reminder will next alert: its occurrence (unless completed)
+// and any pending snooze, which is independent of the occurrence.
+function alertTimes(reminder: Reminder) {
+  const times: number[] = [];
+  if (!reminder.completed) times.push(reminderTime(reminder));
+  const snoozed = snoozeTime(reminder);
+  if (snoozed !== null) times.push(snoozed);
+  return times;
+}
+
+export function getDueReminders(reminders: Reminder[], now: number) {
+  return reminders.filter((reminder) => alertTimes(reminder).some((time) => time <= now));
+}
+
+export function getNextReminderTime(reminders: Reminder[], now: number): number | null {
+  const upcoming = reminders.flatMap(alertTimes).filter((time) => time > now);
+  return upcoming.length > 0 ? Math.min(...upcoming) : null;
+}
+
+export function isMissed(reminder: Reminder, now: number) {
+  const dueAt = snoozeTime(reminder) ?? reminderTime(reminder);
+  return now - dueAt > MISSED_AFTER_MS;
+}
+
+// Move a recurring reminder on to its next occurrence after `now`; one-off
+// reminders are struck out instead.
+export function completeReminder(reminder: Reminder, now: Date = new Date()): Reminder {
+  if (!reminder.recurrence) {
+    return { ...reminder, completed: true, snoozedUntil: undefined };
+  }
+  return {
+    ...reminder,
+    completed: false,
+    snoozedUntil: undefined,
+    datetime: getNextOccurrence(reminder.recurrence, reminder.datetime, now),
+  };
+}
+
+// Applied once a due reminder has alerted, so it doesn't alert again
+export function markReminderDelivered(reminder: Reminder, now: Date = new Date()): Reminder {
+  const snoozed = snoozeTime(reminder);
+  if (snoozed !== null && snoozed <= now.getTime()) {
+    const occurrenceDue = !reminder.completed && reminderTime(reminder) <= now.getTime();
+    const updated = { ...reminder, snoozedUntil: undefined };
+    return occurrenceDue ? completeReminder(updated, now) : updated;
+  }
+  return completeReminder(reminder, now);
+}
+
+export function snoozeReminder(reminder: Reminder, minutes: number, now: Date = new Date()): Reminder {
+  return { ...reminder, snoozedUntil: new Date(now.getTime() + minutes * 60 * 1000).toISOString() };
+}
+
+export const getReminderRoute = (reminder: Reminder) => getItemRoute("reminders", reminder.id);
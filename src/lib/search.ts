@@ -0,0 +1,166 @@
+import { loadStore } from "@/lib/storage";
+import { calendarEventsStore, dayCounterStore, notesStore, remindersStore, tasksStore } from "@/lib/stores";
+import { getToolById, tools, type ToolDefinition } from "@/lib/tools";
+
+// Query parameter a tool page reads to open or highlight a single item.
+export const ITEM_PARAM = "item";
+
+export interface ToolSearchResult {
+  tool: ToolDefinition;
+  score: number;
+}
+
+export interface ContentSearchResult {
+  key: string;
+  toolId: string;
+  itemId: string;
+  title: string;
+  detail?: string;
+  route: string;
+  score: number;
+}
+
+export interface ContentItem {
+  toolId: string;
+  itemId: string;
+  title: string;
+  detail?: string;
+  body: string;
+}
+
+const MAX_CONTENT_RESULTS = 25;
+
+// Subsequence match with bonuses for consecutive characters and word starts.
+// Returns 0 when the query characters don't all appear in order.
+export const fuzzyScore = (query: string, text: string): number => {
+  const q = query.toLowerCase().trim();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+  if (t === q) return 100;
+  if (t.startsWith(q)) return 90;
+  if (t.includes(q)) return 75;
+
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+
+  for (const char of q) {
+    if (char === " ") continue;
+    const found = t.indexOf(char, textIndex);
+    if (found === -1) return 0;
+
+    score += 1;
+    if (found === previousMatch + 1) score += 2;
+    if (found === 0 || /[\s\-_/.]/.test(t[found - 1])) score += 3;
+
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+
+  // Normalise so scattered matches in long strings rank below tight ones.
+  return Math.min(60, (score / q.replace(/\s/g, "").length) * 10 - (t.length - q.length) * 0.05);
+};
+
+export const getItemRoute = (toolId: string, itemId: string) => {
+  const tool = getToolById(toolId);
+  return `${tool?.route ?? "/"}?${ITEM_PARAM}=${encodeURIComponent(itemId)}`;
+};
+
+export const searchTools = (query: string): ToolSearchResult[] => {
+  if (!query.trim()) return tools.map((tool) => ({ tool, score: 0 }));
+
+  return tools
+    .map((tool) => ({
+      tool,
+      score: Math.max(
+        fuzzyScore(query, tool.title),
+        ...tool.keywords.map((keyword) => fuzzyScore(query, keyword) * 0.8),
+        tool.description.toLowerCase().includes(query.toLowerCase().trim()) ? 30 : 0
+      ),
+    }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+// Gathers searchable items from every tool that stores user content.
+export const loadSearchableContent = async (): Promise<ContentItem[]> => {
+  const [notes, tasks, reminders, calendarEvents, dayCounterEvents] = await Promise.all([
+    loadStore(notesStore),
+    loadStore(tasksStore),
+    loadStore(remindersStore),
+    loadStore(calendarEventsStore),
+    loadStore(dayCounterStore),
+  ]);
+  const items: ContentItem[] = [];
+
+  notes.forEach((note) => {
+    items.push({
+      toolId: "notes",
+      itemId: note.id,
+      title: note.title,
+      detail: note.content.slice(0, 80),
+      body: [note.content, ...note.tags].join(" "),
+    });
+  });
+
+  tasks.forEach((task) => {
+    items.push({
+      toolId: "todo",
+      itemId: task.id,
+      title: task.title,
+      detail: task.dueDate ? `Due ${new Date(task.dueDate).toLocaleDateString()}` : task.description,
+      body: task.description ?? "",
+    });
+  });
+
+  reminders.forEach((reminder) => {
+    items.push({
+      toolId: "reminders",
+      itemId: reminder.id,
+      title: reminder.title,
+      detail: new Date(reminder.datetime).toLocaleString(),
+      body: "",
+    });
+  });
+
+  calendarEvents.forEach((event) => {
+    items.push({
+      toolId: "calendar",
+      itemId: event.id,
+      title: event.title,
+      detail: `${new Date(event.date).toLocaleDateString()} at ${event.time}`,
+      body: event.description ?? "",
+    });
+  });
+
+  dayCounterEvents.forEach((event) => {
+    items.push({
+      toolId: "day-counter",
+      itemId: event.id,
+      title: event.title,
+      detail: new Date(event.date).toLocaleDateString(),
+      body: "",
+    });
+  });
+
+  return items;
+};
+
+export const searchContent = (items: ContentItem[], query: string): ContentSearchResult[] => {
+  const normalized = query.toLowerCase().trim();
+  if (!normalized) return [];
+
+  return items
+    .map((item) => ({
+      key: `${item.toolId}:${item.itemId}`,
+      toolId: item.toolId,
+      itemId: item.itemId,
+      title: item.title,
+      detail: item.detail,
+      route: getItemRoute(item.toolId, item.itemId),
+      score: Math.max(fuzzyScore(normalized, item.title), item.body.toLowerCase().includes(normalized) ? 40 : 0),
+    }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CONTENT_RESULTS);
+};
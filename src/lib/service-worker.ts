@@ -0,0 +1,12 @@
+// Registers public/sw.js, which precaches the built app for offline use.
+// Skipped in development, where Vite serves unbundled modules that the
+// precache manifest can't describe.
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
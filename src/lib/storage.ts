@@ -0,0 +1,328 @@
+import { z } from "zod";
+import { idbGet, idbSet } from "@/lib/idb";
+
+// Versioned persistence for tool data. Every key is stored as an envelope
+// `{ schemaVersion, data }`; older payloads are upgraded through the store's
+// migrations and validated before any page sees them. Entries that fail
+// validation are moved to a quarantine key instead of breaking the page.
+//
+// Small text stores live in localStorage and can be read synchronously.
+// Stores that hold Files/Blobs or grow large use the IndexedDB backend and
+// are only available through the async `loadStore`/`saveStore`.
+//
+// Every successful `saveStore` is announced to subscribers in this tab and,
+// through a BroadcastChannel, in every other open tab.
+
+export const QUARANTINE_KEY = "productivity-quarantine";
+
+export type Migration = (data: unknown) => unknown;
+
+export type StorageBackend = "localStorage" | "indexedDB";
+
+export interface ValidationResult<T> {
+  value: T;
+  rejected: unknown[];
+}
+
+export interface StoreDefinition<T> {
+  key: string;
+  version: number;
+  backend: StorageBackend;
+  kind: "collection" | "value";
+  defaultValue: T;
+  // Keyed by the version a migration upgrades *to*; migration 1 upgrades the
+  // unversioned data written before this module existed.
+  migrations: Record<number, Migration>;
+  parseLegacy: (raw: string) => unknown;
+  validate: (data: unknown) => ValidationResult<T> | null;
+}
+
+export interface QuarantinedEntry {
+  id: string;
+  key: string;
+  reason: string;
+  data: unknown;
+  quarantinedAt: string;
+}
+
+interface Envelope {
+  schemaVersion: number;
+  data: unknown;
+}
+
+interface StoreOptions {
+  key: string;
+  version: number;
+  backend?: StorageBackend;
+  migrations?: Record<number, Migration>;
+  parseLegacy?: (raw: string) => unknown;
+}
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as Envelope).schemaVersion === "number" &&
+  "data" in value;
+
+export function defineCollection<S extends z.ZodTypeAny>(
+  options: StoreOptions & { item: S }
+): StoreDefinition<z.infer<S>[]> {
+  return {
+    key: options.key,
+    version: options.version,
+    backend: options.backend ?? "localStorage",
+    kind: "collection",
+    defaultValue: [],
+    migrations: options.migrations ?? {},
+    parseLegacy: options.parseLegacy ?? JSON.parse,
+    validate: (data) => {
+      if (!Array.isArray(data)) return null;
+
+      const value: z.infer<S>[] = [];
+      const rejected: unknown[] = [];
+      data.forEach((entry) => {
+        const result = options.item.safeParse(entry);
+        if (result.success) {
+          value.push(result.data);
+        } else {
+          rejected.push(entry);
+        }
+      });
+      return { value, rejected };
+    },
+  };
+}
+
+export function defineValue<S extends z.ZodTypeAny>(
+  options: StoreOptions & { schema: S; defaultValue: z.infer<S> }
+): StoreDefinition<z.infer<S>> {
+  return {
+    key: options.key,
+    version: options.version,
+    backend: options.backend ?? "localStorage",
+    kind: "value",
+    defaultValue: options.defaultValue,
+    migrations: options.migrations ?? {},
+    parseLegacy: options.parseLegacy ?? JSON.parse,
+    validate: (data) => {
+      const result = options.schema.safeParse(data);
+      return result.success ? { value: result.data, rejected: [] } : null;
+    },
+  };
+}
+
+export function getQuarantinedEntries(): QuarantinedEntry[] {
+  try {
+    const saved = localStorage.getItem(QUARANTINE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function clearQuarantine() {
+  localStorage.removeItem(QUARANTINE_KEY);
+}
+
+function quarantine(key: string, reason: string, entries: unknown[]) {
+  if (entries.length === 0) return;
+
+  console.warn(`Quarantined ${entries.length} invalid entr${entries.length === 1 ? "y" : "ies"} from "${key}": ${reason}`);
+  const quarantined: QuarantinedEntry[] = entries.map((data) => ({
+    id: crypto.randomUUID(),
+    key,
+    reason,
+    data,
+    quarantinedAt: new Date().toISOString(),
+  }));
+
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...getQuarantinedEntries(), ...quarantined]));
+  } catch (error) {
+    console.error("Failed to write quarantine:", error);
+  }
+}
+
+interface Decoded<T> {
+  value: T;
+  // True when the stored form is outdated or had entries removed and should be rewritten
+  changed: boolean;
+}
+
+// Migrate data written at `version` up to the store's current version and
+// validate it, without touching storage. Throws if a migration fails and
+// returns null if the data as a whole doesn't match the schema.
+export function migrateData<T>(store: StoreDefinition<T>, version: number, data: unknown): ValidationResult<T> | null {
+  for (let next = version + 1; next <= store.version; next++) {
+    const migrate = store.migrations[next];
+    if (migrate) data = migrate(data);
+  }
+  return store.validate(data);
+}
+
+// Like migrateData, but anything that can't be used is quarantined.
+export function decodeData<T>(store: StoreDefinition<T>, version: number, data: unknown): Decoded<T> {
+  let result: ValidationResult<T> | null;
+  try {
+    result = migrateData(store, version, data);
+  } catch (error) {
+    quarantine(store.key, `Migration from v${version} failed: ${String(error)}`, [data]);
+    return { value: store.defaultValue, changed: true };
+  }
+
+  if (!result) {
+    quarantine(store.key, "Data does not match schema", [data]);
+    return { value: store.defaultValue, changed: true };
+  }
+
+  quarantine(store.key, "Entry does not match schema", result.rejected);
+  return { value: result.value, changed: version !== store.version || result.rejected.length > 0 };
+}
+
+// Decode a raw localStorage string, which may predate the envelope format.
+export function decodeStore<T>(store: StoreDefinition<T>, raw: string | null): Decoded<T> {
+  if (raw === null) return { value: store.defaultValue, changed: false };
+
+  let version = 0;
+  let data: unknown;
+  try {
+    const parsed = JSON.parse(raw);
+    if (isEnvelope(parsed)) {
+      version = parsed.schemaVersion;
+      data = parsed.data;
+    } else {
+      data = store.parseLegacy(raw);
+    }
+  } catch {
+    try {
+      data = store.parseLegacy(raw);
+    } catch {
+      quarantine(store.key, "Unreadable JSON", [raw]);
+      return { value: store.defaultValue, changed: true };
+    }
+  }
+
+  return decodeData(store, version, data);
+}
+
+const toEnvelope = <T>(store: StoreDefinition<T>, value: T): Envelope => ({
+  schemaVersion: store.version,
+  data: value,
+});
+
+export function encodeStore<T>(store: StoreDefinition<T>, value: T): string {
+  return JSON.stringify(toEnvelope(store, value));
+}
+
+// Synchronous read for localStorage-backed stores.
+export function readStore<T>(store: StoreDefinition<T>): T {
+  if (store.backend !== "localStorage") {
+    throw new Error(`"${store.key}" is stored in ${store.backend}; use loadStore instead`);
+  }
+
+  const { value, changed } = decodeStore(store, localStorage.getItem(store.key));
+  if (changed) writeStore(store, value);
+  return value;
+}
+
+// Synchronous write for localStorage-backed stores.
+export function writeStore<T>(store: StoreDefinition<T>, value: T): boolean {
+  if (store.backend !== "localStorage") {
+    throw new Error(`"${store.key}" is stored in ${store.backend}; use saveStore instead`);
+  }
+
+  try {
+    localStorage.setItem(store.key, encodeStore(store, value));
+    return true;
+  } catch (error) {
+    console.error(`Failed to save "${store.key}":`, error);
+    return false;
+  }
+}
+
+export async function loadStore<T>(store: StoreDefinition<T>): Promise<T> {
+  if (store.backend === "localStorage") return readStore(store);
+
+  const stored = await idbGet(store.key);
+  if (stored === undefined) {
+    // Data written before this store moved to IndexedDB is carried over once
+    const legacy = localStorage.getItem(store.key);
+    if (legacy === null) return store.defaultValue;
+
+    const { value } = decodeStore(store, legacy);
+    await idbSet(store.key, toEnvelope(store, value));
+    localStorage.removeItem(store.key);
+    return value;
+  }
+
+  const { value, changed } = isEnvelope(stored)
+    ? decodeData(store, stored.schemaVersion, stored.data)
+    : decodeData(store, 0, stored);
+  if (changed) await idbSet(store.key, toEnvelope(store, value));
+  return value;
+}
+
+export interface StoreChange {
+  key: string;
+  // Identifies the writer so it can ignore its own change
+  origin?: string;
+}
+
+type StoreChangeListener = (change: StoreChange) => void;
+
+const CHANNEL_NAME = "productivity-storage";
+const changeListeners = new Set<StoreChangeListener>();
+let changeChannel: BroadcastChannel | null = null;
+let listeningForChanges = false;
+
+const notifyListeners = (change: StoreChange) => {
+  changeListeners.forEach((listener) => listener(change));
+};
+
+function startListening() {
+  if (listeningForChanges) return;
+  listeningForChanges = true;
+
+  if (typeof BroadcastChannel !== "undefined") {
+    changeChannel = new BroadcastChannel(CHANNEL_NAME);
+    changeChannel.onmessage = (event: MessageEvent<StoreChange>) => notifyListeners(event.data);
+  } else {
+    // Without BroadcastChannel only localStorage-backed stores can be synced
+    window.addEventListener("storage", (event) => {
+      if (event.key) notifyListeners({ key: event.key });
+    });
+  }
+}
+
+export function subscribeToStoreChanges(listener: StoreChangeListener) {
+  startListening();
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+export async function saveStore<T>(store: StoreDefinition<T>, value: T, origin?: string): Promise<boolean> {
+  let saved: boolean;
+  if (store.backend === "localStorage") {
+    saved = writeStore(store, value);
+  } else {
+    try {
+      await idbSet(store.key, toEnvelope(store, value));
+      saved = true;
+    } catch (error) {
+      console.error(`Failed to save "${store.key}":`, error);
+      saved = false;
+    }
+  }
+
+  if (saved) {
+    startListening();
+    const change: StoreChange = { key: store.key, origin };
+    notifyListeners(change);
+    changeChannel?.postMessage(change);
+  }
+  return saved;
+}
@@ -0,0 +1,453 @@
+import { z } from "zod";
+import { defineCollection, defineValue } from "@/lib/storage";
+
+// Schemas and store definitions for every tool that persists data.
+// Bump a store's `version` and add a migration whenever its shape changes.
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(["hourly", "daily", "weekdays", "weekly", "monthly", "yearly"]),
+  // Every N hours/days/weeks/months/years; ignored for "weekdays"
+  interval: z.number().int().positive(),
+  // Days of the week (0 = Sunday) for weekly rules
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+  // Monthly rules repeat on the anchor's date (the 15th) or weekday (the 3rd Tuesday)
+  monthlyBy: z.enum(["date", "weekday"]).optional(),
+  // The first occurrence; month and year rules are measured from it
+  anchor: z.string(),
+});
+export type RecurrenceRule = z.infer<typeof recurrenceSchema>;
+
+export const reminderSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  // The next (or only) occurrence, as a datetime-local string
+  datetime: z.string(),
+  completed: z.boolean(),
+  recurrence: recurrenceSchema.optional(),
+  snoozedUntil: z.string().optional(),
+});
+export type Reminder = z.infer<typeof reminderSchema>;
+
+export const checklistItemSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  done: z.boolean(),
+});
+export type ChecklistItem = z.infer<typeof checklistItemSchema>;
+
+export const taskCompletionSchema = z.object({
+  // The due date of the completed instance, if it had one
+  dueDate: z.string().optional(),
+  completedAt: z.string(),
+});
+export type TaskCompletion = z.infer<typeof taskCompletionSchema>;
+
+export const taskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  completed: z.boolean(),
+  priority: z.enum(["low", "medium", "high"]),
+  dueDate: z.string().optional(),
+  createdAt: z.string(),
+  completedAt: z.string().optional(),
+  // Subtasks are stored alongside their parent and point back to it
+  parentId: z.string().optional(),
+  checklist: z.array(checklistItemSchema),
+  // Whether the task's subtasks and checklist are hidden
+  collapsed: z.boolean().optional(),
+  project: z.string().optional(),
+  tags: z.array(z.string()),
+  // Position in the manual sort order, lowest first
+  order: z.number(),
+  // The board column the task sits in; kept in step with `completed`
+  status: z.string(),
+  // Completing a recurring task spawns the next instance, which takes over
+  // the rule and the series' completion history
+  recurrence: recurrenceSchema.optional(),
+  // Whether the next due date follows the rule's schedule or is counted
+  // from the day the last instance was completed
+  repeatFrom: z.enum(["schedule", "completion"]).optional(),
+  history: z.array(taskCompletionSchema).optional(),
+  // key:value pairs from imported todo.txt lines that don't map to a field,
+  // kept so they're written back out on export
+  metadata: z.record(z.string()).optional(),
+  // The Eisenhower matrix quadrant
+  urgent: z.boolean(),
+  important: z.boolean(),
+  estimateMinutes: z.number().int().positive().optional(),
+  // The day (yyyy-MM-dd) the task was picked for in the Today plan
+  plannedFor: z.string().optional(),
+});
+export type Task = z.infer<typeof taskSchema>;
+
+export const boardColumnSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  // Most tasks allowed in the column at once; unset means no limit
+  wipLimit: z.number().int().positive().optional(),
+  // Tasks moved here are marked completed
+  done: z.boolean(),
+});
+export type BoardColumn = z.infer<typeof boardColumnSchema>;
+
+export const taskSortSchema = z.enum(["manual", "due", "priority", "created"]);
+export type TaskSort = z.infer<typeof taskSortSchema>;
+
+export const savedTaskFilterSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  query: z.string(),
+  sort: taskSortSchema,
+});
+export type SavedTaskFilter = z.infer<typeof savedTaskFilterSchema>;
+
+// AES-GCM ciphertext along with the PBKDF2 parameters of the passphrase key
+// it was made with. Everything encrypted with one passphrase shares a salt.
+export const encryptedDataSchema = z.object({
+  salt: z.string(),
+  iterations: z.number().int().positive(),
+  iv: z.string(),
+  data: z.string(),
+});
+export type EncryptedData = z.infer<typeof encryptedDataSchema>;
+
+// An encrypted attachment's blob is the ciphertext itself, so only the key
+// parameters and IV are kept alongside
+export const attachmentEncryptionSchema = encryptedDataSchema.omit({ data: true });
+export type AttachmentEncryption = z.infer<typeof attachmentEncryptionSchema>;
+
+export const noteSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  // Hierarchical, with "/" between levels: "work/clients/acme"
+  tags: z.array(z.string()),
+  notebookId: z.string().optional(),
+  pinned: z.boolean(),
+  archived: z.boolean(),
+  // Set on daily journal notes: the day they belong to, "2024-05-01"
+  journalDate: z.string().optional(),
+  // Set on encrypted notes, which then store their content and tags only in
+  // here and keep content and tags empty
+  encryption: encryptedDataSchema.optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type Note = z.infer<typeof noteSchema>;
+
+// Title and content may use {{date}}, {{time}}, {{weekday}} and {{cursor}}
+export const noteTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  title: z.string(),
+  content: z.string(),
+  tags: z.array(z.string()),
+});
+export type NoteTemplate = z.infer<typeof noteTemplateSchema>;
+
+export const journalSettingsSchema = z.object({
+  // A user template or built-in template id; the built-in journal if unset
+  templateId: z.string().optional(),
+  notebookId: z.string().optional(),
+});
+export type JournalSettings = z.infer<typeof journalSettingsSchema>;
+
+export const notebookSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  parentId: z.string().optional(),
+  // Set on encrypted notebooks: a check value encrypted with the notebook's
+  // passphrase, whose key also encrypts the notes inside
+  encryption: encryptedDataSchema.optional(),
+  createdAt: z.string(),
+});
+export type Notebook = z.infer<typeof notebookSchema>;
+
+// A snapshot of a note taken every time it is saved
+export const noteRevisionSchema = z.object({
+  id: z.string(),
+  noteId: z.string(),
+  title: z.string(),
+  content: z.string(),
+  tags: z.array(z.string()),
+  savedAt: z.string(),
+  // savedAt of the revision this one restored, if any
+  restoredFrom: z.string().optional(),
+});
+export type NoteRevision = z.infer<typeof noteRevisionSchema>;
+
+// A file pasted or dropped into a note, referenced from its content as
+// ![name](attachment:id) or [name](attachment:id)
+export const noteAttachmentSchema = z.object({
+  id: z.string(),
+  noteId: z.string(),
+  name: z.string(),
+  type: z.string(),
+  size: z.number(),
+  blob: z.instanceof(Blob),
+  createdAt: z.string(),
+  // Set while the note it belongs to is encrypted; name, type and size stay
+  // readable, like an encrypted note's title
+  encryption: attachmentEncryptionSchema.optional(),
+});
+export type NoteAttachment = z.infer<typeof noteAttachmentSchema>;
+
+export const noteHistorySettingsSchema = z.object({
+  // "all" keeps every revision, "last" the newest `keepLast` per note and
+  // "thin" keeps recent ones and fewer the older they get
+  retention: z.enum(["all", "last", "thin"]),
+  keepLast: z.number(),
+});
+export type NoteHistorySettings = z.infer<typeof noteHistorySettingsSchema>;
+
+export const noteLockSettingsSchema = z.object({
+  // Unlocked notes lock again after this long without any activity
+  autoLockMinutes: z.number().positive(),
+});
+export type NoteLockSettings = z.infer<typeof noteLockSettingsSchema>;
+
+export const calendarEventSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  date: z.string(),
+  time: z.string(),
+  description: z.string().optional(),
+});
+export type CalendarEvent = z.infer<typeof calendarEventSchema>;
+
+export const dayCounterEventSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  date: z.string(),
+  type: z.enum(["countdown", "countup"]),
+});
+export type DayCounterEvent = z.infer<typeof dayCounterEventSchema>;
+
+export const savedPasswordSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  password: z.string(),
+  createdAt: z.string(),
+});
+export type SavedPassword = z.infer<typeof savedPasswordSchema>;
+
+export const pomodoroSettingsSchema = z.object({
+  workDuration: z.number(),
+  shortBreakDuration: z.number(),
+  longBreakDuration: z.number(),
+});
+export type PomodoroSettings = z.infer<typeof pomodoroSettingsSchema>;
+
+export const uploadedImageSchema = z.object({
+  id: z.string(),
+  file: z.instanceof(File),
+});
+export type UploadedImage = z.infer<typeof uploadedImageSchema>;
+
+export const extractedImageSchema = z.object({
+  id: z.string(),
+  dataUrl: z.string(),
+  pageNumber: z.number(),
+});
+export type ExtractedImage = z.infer<typeof extractedImageSchema>;
+
+export const mergeFileSchema = z.object({
+  id: z.string(),
+  file: z.instanceof(File),
+  name: z.string(),
+  size: z.string(),
+});
+export type MergeFile = z.infer<typeof mergeFileSchema>;
+
+export const compressedImageSchema = z.object({
+  id: z.string(),
+  original: z.object({
+    file: z.instanceof(File),
+    size: z.number(),
+  }),
+  compressed: z.object({
+    dataUrl: z.string(),
+    size: z.number(),
+  }),
+  quality: z.number(),
+  compressionRatio: z.number(),
+});
+export type CompressedImage = z.infer<typeof compressedImageSchema>;
+
+// v2 added optional recurrence and snoozedUntil; v1 data is already valid
+export const remindersStore = defineCollection({
+  key: "productivity-reminders",
+  version: 2,
+  item: reminderSchema,
+});
+
+export const tasksStore = defineCollection({
+  key: "productivity-tasks",
+  version: 7,
+  migrations: {
+    // v2 added subtasks (parentId) and checklists
+    2: (data) => (Array.isArray(data) ? data.map((task) => ({ checklist: [], ...task })) : data),
+    // v3 added projects, tags and a manual order that keeps the existing order
+    3: (data) => (Array.isArray(data) ? data.map((task, index) => ({ tags: [], order: index, ...task })) : data),
+    // v4 added board statuses, matching the default columns
+    4: (data) =>
+      Array.isArray(data) ? data.map((task) => ({ status: task.completed ? "done" : "todo", ...task })) : data,
+    // v7 added urgent/important; high priority tasks start out as important
+    7: (data) =>
+      Array.isArray(data)
+        ? data.map((task) => ({ urgent: false, important: task.priority === "high", ...task }))
+        : data,
+  },
+  item: taskSchema,
+});
+
+export const taskBoardStore = defineValue({
+  key: "productivity-task-board",
+  version: 1,
+  schema: z.array(boardColumnSchema).min(1),
+  defaultValue: [
+    { id: "todo", name: "To do", done: false },
+    { id: "in-progress", name: "In progress", done: false },
+    { id: "done", name: "Done", done: true },
+  ],
+});
+
+export const dayPlanSettingsStore = defineValue({
+  key: "productivity-day-plan",
+  version: 1,
+  schema: z.object({ availableHours: z.number().positive() }),
+  defaultValue: { availableHours: 6 },
+});
+
+export const savedTaskFiltersStore = defineCollection({
+  key: "productivity-task-filters",
+  version: 1,
+  item: savedTaskFilterSchema,
+});
+
+// Notes can grow well past the localStorage quota, so they live in IndexedDB
+export const notesStore = defineCollection({
+  key: "productivity-notes",
+  version: 4,
+  backend: "indexedDB",
+  migrations: {
+    // v2 added notebooks, pinning and archiving
+    2: (data) => (Array.isArray(data) ? data.map((note) => ({ pinned: false, archived: false, ...note })) : data),
+    // v3 added the optional journalDate; v2 data is already valid
+    // v4 added the optional encryption; v3 data is already valid
+  },
+  item: noteSchema,
+});
+
+export const notebooksStore = defineCollection({
+  key: "productivity-notebooks",
+  // v2 added the optional encryption; v1 data is already valid
+  version: 2,
+  item: notebookSchema,
+});
+
+export const noteTemplatesStore = defineCollection({
+  key: "productivity-note-templates",
+  version: 1,
+  item: noteTemplateSchema,
+});
+
+export const journalSettingsStore = defineValue({
+  key: "productivity-journal-settings",
+  version: 1,
+  schema: journalSettingsSchema,
+  defaultValue: {},
+});
+
+// Attachments are Blobs, so they need IndexedDB's structured clone
+export const noteAttachmentsStore = defineCollection({
+  key: "productivity-note-attachments",
+  // v2 added the optional encryption; v1 data is already valid
+  version: 2,
+  backend: "indexedDB",
+  item: noteAttachmentSchema,
+});
+
+export const noteRevisionsStore = defineCollection({
+  key: "productivity-note-revisions",
+  version: 1,
+  backend: "indexedDB",
+  item: noteRevisionSchema,
+});
+
+export const noteHistorySettingsStore = defineValue({
+  key: "productivity-note-history-settings",
+  version: 1,
+  schema: noteHistorySettingsSchema,
+  defaultValue: { retention: "last", keepLast: 50 },
+});
+
+export const noteLockSettingsStore = defineValue({
+  key: "productivity-note-lock-settings",
+  version: 1,
+  schema: noteLockSettingsSchema,
+  defaultValue: { autoLockMinutes: 5 },
+});
+
+export const calendarEventsStore = defineCollection({
+  key: "productivity-calendar-events",
+  version: 1,
+  item: calendarEventSchema,
+});
+
+export const dayCounterStore = defineCollection({
+  key: "productivity-day-counter",
+  version: 1,
+  item: dayCounterEventSchema,
+});
+
+export const savedPasswordsStore = defineCollection({
+  key: "productivity-saved-passwords",
+  version: 1,
+  item: savedPasswordSchema,
+});
+
+export const pomodoroSettingsStore = defineValue({
+  key: "productivity-pomodoro-settings",
+  version: 1,
+  schema: pomodoroSettingsSchema,
+  defaultValue: { workDuration: 25, shortBreakDuration: 5, longBreakDuration: 15 },
+});
+
+export const imageToPdfQueueStore = defineCollection({
+  key: "productivity-image-to-pdf-queue",
+  version: 1,
+  backend: "indexedDB",
+  item: uploadedImageSchema,
+});
+
+export const pdfToImageResultsStore = defineCollection({
+  key: "productivity-pdf-to-image-results",
+  version: 1,
+  backend: "indexedDB",
+  item: extractedImageSchema,
+});
+
+export const fileMergerQueueStore = defineCollection({
+  key: "productivity-file-merger-queue",
+  version: 1,
+  backend: "indexedDB",
+  item: mergeFileSchema,
+});
+
+export const imageCompressorQueueStore = defineCollection({
+  key: "productivity-image-compressor-queue",
+  version: 1,
+  backend: "indexedDB",
+  item: compressedImageSchema,
+});
+
+export const wordCounterTextStore = defineValue({
+  key: "productivity-word-counter-text",
+  version: 1,
+  schema: z.string(),
+  defaultValue: "",
+  // The text used to be stored as a bare string rather than JSON
+  parseLegacy: (raw) => raw,
+});
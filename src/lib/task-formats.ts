@@ -0,0 +1,363 @@
+import { format } from "date-fns";
+import type { RecurrenceRule, Task } from "@/lib/stores";
+
+// Plain-text task formats for import and export.
+//
+// todo.txt (https://github.com/todotxt/todo.txt) has one task per line:
+//   x 2024-05-15 2024-05-01 (A) Call the bank +finances @phone due:2024-05-20
+// with the completion marker and date, priority, creation date, +project,
+// @contexts (our tags) and key:value pairs. due:, rec: (repeat, as used by
+// Simpletask and the todo.txt recur add-ons), pri: (the priority of a
+// completed task) and est: (estimated minutes) map to task fields; other
+// pairs are kept in `metadata`. Fields todo.txt has no word for get pairs of
+// their own:
+//   recdays:mon,wed       the days of a weekly rule
+//   recby:weekday         a monthly rule on the nth weekday ("3rd Tuesday")
+//   recstart:2024-05-01   the rule's anchor, with THHmm if it has a time,
+//                         when it isn't the due date
+//   history:2024-05-02/2024-05-01,2024-05-09
+//                         completions of a recurring task, each with the
+//                         due date it had
+//   planned:2024-05-01    the day it's planned for in Today
+//   urgent:yes, important:no
+//                         the Eisenhower quadrant, when it isn't the one
+//                         import assumes (not urgent, important if high)
+//
+// Title words that would read as one of these (a +project, an @context, a
+// key:value pair like "10:30") are written with a leading backslash.
+//
+// Markdown checklists put the same line behind a checkbox, without the "x":
+//   - [x] 2024-05-15 2024-05-01 (A) Call the bank +finances
+//     Ask about the fee
+//     - [ ] Find the account number
+//     * [x] Statement from April
+// Nested "-" items are subtasks, nested "*" items are checklist entries and
+// other indented lines make up the description.
+
+export type TaskFormat = "todo.txt" | "markdown";
+
+export const TASK_FORMATS: Record<TaskFormat, { label: string; extension: string; mimeType: string }> = {
+  "todo.txt": { label: "todo.txt", extension: "txt", mimeType: "text/plain" },
+  markdown: { label: "Markdown checklist", extension: "md", mimeType: "text/markdown" },
+};
+
+// Imported tasks, ready to be added once they're given a board status
+export type ImportedTask = Omit<Task, "status">;
+
+const PRIORITY_LETTERS: Record<Task["priority"], string> = { high: "A", medium: "B", low: "C" };
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+// Neither side of a key:value pair may contain spaces or colons; "//" rules
+// out URLs like https://example.com
+const KEY_VALUE = /^([^\s:]+):(?!\/\/)([^\s:]+)$/;
+const REC = /^(\+?)(\d*)([hdwmyb])$/i;
+const REC_START = /^(\d{4}-\d{2}-\d{2})(?:T(\d{2})(\d{2}))?$/;
+const HISTORY_ENTRY = /^(\d{4}-\d{2}-\d{2})(?:\/(\d{4}-\d{2}-\d{2}))?$/;
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DATE_PREFIX = /^(\d{4}-\d{2}-\d{2})(?:\s+|$)/;
+const PRIORITY_PREFIX = /^\(([A-Z])\)(?:\s+|$)/;
+const CHECKBOX_ITEM = /^(\s*)([-*+])\s+\[([ xX])\]\s*(.*)$/;
+
+const toLocalDate = (iso: string) => format(new Date(iso), "yyyy-MM-dd");
+const fromLocalDate = (date: string) => new Date(`${date}T00:00`).toISOString();
+const indentWidth = (indent: string) => indent.replace(/\t/g, "    ").length;
+
+function priorityFromLetter(letter: string): Task["priority"] {
+  const upper = letter.toUpperCase();
+  return upper === "A" ? "high" : upper === "B" ? "medium" : "low";
+}
+
+// What the rec*: pairs add to a rec: rule
+interface RecOptions {
+  daysOfWeek?: number[];
+  monthlyBy?: RecurrenceRule["monthlyBy"];
+  anchor?: string;
+}
+
+// rec:1w repeats a week after completion; rec:+1w a week after the due date.
+// b is business days and h (not in todo.txt proper) hours.
+function parseRec(value: string, dueDate: string, options: RecOptions): Pick<Task, "recurrence" | "repeatFrom"> | null {
+  const match = value.match(REC);
+  if (!match) return null;
+
+  const interval = Math.max(1, parseInt(match[2] || "1"));
+  const anchor = options.anchor ?? `${dueDate}T00:00`;
+  const unit = match[3].toLowerCase();
+  const recurrence: RecurrenceRule =
+    unit === "b"
+      ? { frequency: "weekdays", interval: 1, anchor }
+      : unit === "h"
+        ? { frequency: "hourly", interval, anchor }
+        : unit === "d"
+          ? { frequency: "daily", interval, anchor }
+          : unit === "w"
+            ? { frequency: "weekly", interval, daysOfWeek: options.daysOfWeek ?? [new Date(anchor).getDay()], anchor }
+            : unit === "m"
+              ? { frequency: "monthly", interval, monthlyBy: options.monthlyBy ?? "date", anchor }
+              : { frequency: "yearly", interval, anchor };
+  return { recurrence, repeatFrom: match[1] ? "schedule" : "completion" };
+}
+
+// The rec: pair and whichever rec*: pairs the rule needs beyond it
+function formatRec(task: Task): string[] {
+  const rule = task.recurrence;
+  if (!rule) return [];
+
+  const strict = task.repeatFrom === "completion" ? "" : "+";
+  const unit = { hourly: "h", daily: "d", weekdays: "b", weekly: "w", monthly: "m", yearly: "y" }[rule.frequency];
+  const parts = [`rec:${strict}${rule.frequency === "weekdays" ? 1 : rule.interval}${unit}`];
+
+  const defaultAnchor = `${task.dueDate}T00:00`;
+  if (
+    rule.frequency === "weekly" &&
+    rule.daysOfWeek &&
+    !(rule.daysOfWeek.length === 1 && rule.daysOfWeek[0] === new Date(rule.anchor).getDay())
+  ) {
+    parts.push(`recdays:${rule.daysOfWeek.map((day) => WEEKDAY_NAMES[day]).join(",")}`);
+  }
+  if (rule.frequency === "monthly" && rule.monthlyBy === "weekday") parts.push("recby:weekday");
+  if (rule.anchor !== defaultAnchor) {
+    const time = rule.anchor.slice(11, 16).replace(":", "");
+    parts.push(`recstart:${rule.anchor.slice(0, 10)}${time && time !== "0000" ? `T${time}` : ""}`);
+  }
+  return parts;
+}
+
+function parseRecDays(value: string): number[] | null {
+  const days = value.split(",").map((name) => WEEKDAY_NAMES.indexOf(name.toLowerCase()));
+  return days.includes(-1) ? null : days;
+}
+
+function parseRecStart(value: string): string | null {
+  const match = value.match(REC_START);
+  return match ? `${match[1]}T${match[2] ?? "00"}:${match[3] ?? "00"}` : null;
+}
+
+function parseHistory(value: string): Task["history"] | null {
+  const entries = value.split(",").map((entry) => entry.match(HISTORY_ENTRY));
+  if (entries.some((entry) => !entry)) return null;
+  return entries.map((entry) => ({
+    dueDate: (entry as RegExpMatchArray)[2],
+    completedAt: fromLocalDate((entry as RegExpMatchArray)[1]),
+  }));
+}
+
+const formatHistory = (history: NonNullable<Task["history"]>) =>
+  history
+    .map(({ completedAt, dueDate }) => `${toLocalDate(completedAt)}${dueDate ? `/${dueDate}` : ""}`)
+    .join(",");
+
+// Whether a title word would be read back as something other than a word
+const needsEscape = (word: string) =>
+  /^[\\+@]/.test(word) || KEY_VALUE.test(word) || /^\([A-Z]\)$/.test(word);
+
+const escapeTitle = (title: string) => title.replace(/\S+/g, (word) => (needsEscape(word) ? `\\${word}` : word));
+
+// Parse the body of a todo.txt line. `completed` is set for Markdown items,
+// whose checkbox stands in for the "x".
+function parseLine(line: string, now: Date, completed?: boolean): ImportedTask {
+  let rest = line.trim();
+  const take = (pattern: RegExp) => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.slice(match[0].length);
+    return match;
+  };
+
+  const isDone = completed ?? !!take(/^x\s+/);
+  // The priority normally leads, but some tools write it after "x" and the dates
+  let letter = take(PRIORITY_PREFIX)?.[1];
+  const dates: string[] = [];
+  while (dates.length < (isDone ? 2 : 1)) {
+    const date = take(DATE_PREFIX)?.[1];
+    if (!date) break;
+    dates.push(date);
+  }
+  letter = letter ?? take(PRIORITY_PREFIX)?.[1];
+  // A completed task's completion date comes before its creation date
+  const [completionDate, creationDate] = isDone ? [dates[0], dates[1]] : [undefined, dates[0]];
+  let priority = letter ? priorityFromLetter(letter) : undefined;
+
+  const words: string[] = [];
+  const tags: string[] = [];
+  const metadata: Record<string, string> = {};
+  let project: string | undefined;
+  let dueDate: string | undefined;
+  let rec: string | undefined;
+  const recOptions: RecOptions = {};
+  let estimateMinutes: number | undefined;
+  let history: Task["history"];
+  let plannedFor: string | undefined;
+  let urgent: boolean | undefined;
+  let important: boolean | undefined;
+
+  const tokens = rest.split(/\s+/).filter(Boolean);
+  // Tasks have one project: the last +project, which is where export puts
+  // it. Any others stay in the title.
+  const projectIndex = tokens.map((word) => /^\+\S+$/.test(word)).lastIndexOf(true);
+  tokens.forEach((word, index) => {
+    if (word.startsWith("\\")) {
+      words.push(word.slice(1));
+      return;
+    }
+    if (index === projectIndex) {
+      project = word.slice(1);
+      return;
+    }
+    if (/^@\S+$/.test(word)) {
+      if (!tags.includes(word.slice(1))) tags.push(word.slice(1));
+      return;
+    }
+    const pair = word.match(KEY_VALUE);
+    if (pair) {
+      const [, key, value] = pair;
+      const days = key === "recdays" ? parseRecDays(value) : null;
+      const anchor = key === "recstart" ? parseRecStart(value) : null;
+      const completions = key === "history" ? parseHistory(value) : null;
+      if (key === "due" && DATE.test(value)) dueDate = value;
+      else if (key === "rec" && REC.test(value)) rec = value;
+      else if (key === "pri" && /^[A-Z]$/i.test(value)) priority = priorityFromLetter(value);
+      else if (key === "est" && /^[1-9]\d*$/.test(value)) estimateMinutes = parseInt(value);
+      else if (days) recOptions.daysOfWeek = days;
+      else if (key === "recby" && value === "weekday") recOptions.monthlyBy = "weekday";
+      else if (anchor) recOptions.anchor = anchor;
+      else if (completions) history = completions;
+      else if (key === "planned" && DATE.test(value)) plannedFor = value;
+      else if (key === "urgent" && /^(yes|no)$/.test(value)) urgent = value === "yes";
+      else if (key === "important" && /^(yes|no)$/.test(value)) important = value === "yes";
+      else metadata[key] = value;
+      return;
+    }
+    words.push(word);
+  });
+
+  const repeat = rec ? parseRec(rec, dueDate ?? format(now, "yyyy-MM-dd"), recOptions) : null;
+  return {
+    id: crypto.randomUUID(),
+    title: words.join(" "),
+    completed: isDone,
+    priority: priority ?? "medium",
+    dueDate: dueDate ?? (repeat ? format(now, "yyyy-MM-dd") : undefined),
+    createdAt: creationDate ? fromLocalDate(creationDate) : now.toISOString(),
+    completedAt: isDone ? (completionDate ? fromLocalDate(completionDate) : now.toISOString()) : undefined,
+    checklist: [],
+    project,
+    tags,
+    order: 0,
+    urgent: urgent ?? false,
+    important: important ?? (priority ?? "medium") === "high",
+    estimateMinutes,
+    plannedFor,
+    ...repeat,
+    history,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
+
+// The todo.txt line for a task, without the leading "x " when `checkbox` is
+// set (for Markdown)
+function formatLine(task: Task, checkbox = false): string {
+  const parts: string[] = [];
+  if (task.completed && !checkbox) parts.push("x");
+  if (task.completed) parts.push(toLocalDate(task.completedAt ?? task.createdAt));
+  // todo.txt drops the priority of completed tasks; it's kept as pri: instead
+  if (!task.completed) parts.push(`(${PRIORITY_LETTERS[task.priority]})`);
+  parts.push(toLocalDate(task.createdAt), escapeTitle(task.title));
+
+  // Projects and tags can't contain spaces in todo.txt
+  if (task.project) parts.push(`+${task.project.replace(/\s+/g, "-")}`);
+  task.tags.forEach((tag) => parts.push(`@${tag.replace(/\s+/g, "-")}`));
+  if (task.dueDate) parts.push(`due:${task.dueDate}`);
+  parts.push(...formatRec(task));
+  if (task.completed) parts.push(`pri:${PRIORITY_LETTERS[task.priority]}`);
+  if (task.estimateMinutes) parts.push(`est:${task.estimateMinutes}`);
+  if (task.history?.length) parts.push(`history:${formatHistory(task.history)}`);
+  if (task.plannedFor) parts.push(`planned:${task.plannedFor}`);
+  if (task.urgent) parts.push("urgent:yes");
+  if (task.important !== (task.priority === "high")) parts.push(`important:${task.important ? "yes" : "no"}`);
+  Object.entries(task.metadata ?? {}).forEach(([key, value]) => parts.push(`${key}:${value}`));
+
+  return parts.join(" ");
+}
+
+function parseTodoTxt(text: string, now: Date): ImportedTask[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line, index) => ({ ...parseLine(line, now), order: index }))
+    .filter((task) => task.title);
+}
+
+function parseMarkdown(text: string, now: Date): ImportedTask[] {
+  const tasks: ImportedTask[] = [];
+  // The open items above the current line, innermost last
+  const stack: { indent: number; task: ImportedTask }[] = [];
+
+  text.split(/\r?\n/).forEach((line) => {
+    if (!line.trim()) return;
+    const item = line.match(CHECKBOX_ITEM);
+    const indent = indentWidth(item ? item[1] : line.match(/^\s*/)![0]);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1]?.task;
+
+    if (!item) {
+      // Indented text under an item is its description; anything else (headings, notes) is skipped
+      if (parent && indent > 0) {
+        const description = line.trim();
+        parent.description = parent.description ? `${parent.description}\n${description}` : description;
+      }
+      return;
+    }
+
+    const [, , bullet, mark, body] = item;
+    const done = mark.toLowerCase() === "x";
+    if (bullet === "*" && parent) {
+      parent.checklist.push({ id: crypto.randomUUID(), text: body.trim(), done });
+      return;
+    }
+
+    const task = parseLine(body, now, done);
+    if (!task.title) return;
+    const siblings = tasks.filter((t) => t.parentId === parent?.id);
+    tasks.push({ ...task, parentId: parent?.id, order: siblings.length });
+    stack.push({ indent, task: tasks[tasks.length - 1] });
+  });
+
+  return tasks;
+}
+
+function formatMarkdown(tasks: Task[]): string {
+  const ids = new Set(tasks.map((task) => task.id));
+  const lines: string[] = [];
+  const byOrder = (a: Task, b: Task) => a.order - b.order;
+
+  const write = (task: Task, depth: number) => {
+    const indent = "  ".repeat(depth);
+    lines.push(`${indent}- [${task.completed ? "x" : " "}] ${formatLine(task, true)}`);
+    task.description?.split("\n").forEach((line) => lines.push(`${indent}  ${line}`));
+    tasks
+      .filter((child) => child.parentId === task.id)
+      .sort(byOrder)
+      .forEach((child) => write(child, depth + 1));
+    task.checklist.forEach((item) => lines.push(`${indent}  * [${item.done ? "x" : " "}] ${item.text}`));
+  };
+
+  // Subtasks whose parent isn't being exported are written at the top level
+  tasks
+    .filter((task) => !task.parentId || !ids.has(task.parentId))
+    .sort(byOrder)
+    .forEach((task) => write(task, 0));
+  return lines.join("\n");
+}
+
+export function formatTasks(tasks: Task[], taskFormat: TaskFormat): string {
+  if (taskFormat === "markdown") return formatMarkdown(tasks);
+  return [...tasks].sort((a, b) => a.order - b.order).map((task) => formatLine(task)).join("\n");
+}
+
+export function parseTasks(text: string, taskFormat: TaskFormat, now: Date = new Date()): ImportedTask[] {
+  return taskFormat === "markdown" ? parseMarkdown(text, now) : parseTodoTxt(text, now);
+}
+
+// Markdown if any line is a checkbox item, todo.txt otherwise
+export const detectTaskFormat = (text: string): TaskFormat =>
+  text.split(/\r?\n/).some((line) => CHECKBOX_ITEM.test(line)) ? "markdown" : "todo.txt";
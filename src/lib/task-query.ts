@@ -0,0 +1,168 @@
+import { addDays, addMonths, addWeeks, format } from "date-fns";
+import type { Task, TaskSort } from "@/lib/stores";
+
+// A small filter language for tasks, e.g.
+//   project:work tag:urgent due:<7d priority:high -completed
+// Terms are separated by spaces and all must match. A leading "-" negates a
+// term and values with spaces can be quoted (project:"home reno").
+//
+//   project:NAME    tasks in the project (p: for short)
+//   tag:NAME, #NAME tasks carrying the tag
+//   due:VALUE       today, tomorrow, overdue, none, any, a date (2024-06-01)
+//                   or an offset from today (3d, 2w, 1m); prefix with
+//                   <, <=, > or >= to compare
+//   priority:LEVEL  low, medium or high, optionally with a comparison
+//   completed       finished tasks (also done); active/open for the rest
+//   overdue         unfinished tasks past their due date
+//   urgent          tasks marked urgent; important likewise
+//   anything else   text to find in the title or description
+
+export const TASK_SORT_LABELS: Record<TaskSort, string> = {
+  manual: "Manual order",
+  due: "Due date",
+  priority: "Priority",
+  created: "Date created",
+};
+
+export interface CompiledTaskQuery {
+  matches: (task: Task) => boolean;
+  errors: string[];
+}
+
+type Predicate = (task: Task) => boolean;
+type Comparison = "<" | "<=" | ">" | ">=" | "=";
+
+const PRIORITY_RANK: Record<Task["priority"], number> = { low: 0, medium: 1, high: 2 };
+
+const TERM_PATTERN = /-?(?:[^\s"]+:)?"[^"]*"|\S+/g;
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+function compare(value: string | number, target: string | number, op: Comparison) {
+  switch (op) {
+    case "<":
+      return value < target;
+    case "<=":
+      return value <= target;
+    case ">":
+      return value > target;
+    case ">=":
+      return value >= target;
+    default:
+      return value === target;
+  }
+}
+
+function splitComparison(value: string): [Comparison, string] {
+  const match = value.match(/^(<=|>=|<|>|=)?(.*)$/);
+  return [(match?.[1] as Comparison) || "=", match?.[2] ?? ""];
+}
+
+// Resolve a due-date value to yyyy-MM-dd, or null if it isn't a date
+function resolveDate(value: string, today: Date): string | null {
+  const word = value.toLowerCase();
+  if (word === "today") return toDateString(today);
+  if (word === "tomorrow") return toDateString(addDays(today, 1));
+  if (word === "yesterday") return toDateString(addDays(today, -1));
+
+  const offset = word.match(/^([+-]?\d+)([dwm])$/);
+  if (offset) {
+    const amount = parseInt(offset[1]);
+    const shifted =
+      offset[2] === "d" ? addDays(today, amount) : offset[2] === "w" ? addWeeks(today, amount) : addMonths(today, amount);
+    return toDateString(shifted);
+  }
+
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
+const isOverdue = (task: Task, today: string) => !task.completed && !!task.dueDate && task.dueDate < today;
+
+function compileTerm(term: string, today: Date, errors: string[]): Predicate | null {
+  const separator = term.indexOf(":");
+  const key = separator > 0 ? term.slice(0, separator).toLowerCase() : "";
+  const value = (separator > 0 ? term.slice(separator + 1) : term).replace(/^"|"$/g, "");
+  const todayString = toDateString(today);
+
+  if (!key) {
+    const word = value.toLowerCase();
+    if (word === "completed" || word === "done") return (task) => task.completed;
+    if (word === "active" || word === "open") return (task) => !task.completed;
+    if (word === "overdue") return (task) => isOverdue(task, todayString);
+    if (word === "urgent") return (task) => task.urgent;
+    if (word === "important") return (task) => task.important;
+    if (word.startsWith("#") && word.length > 1) {
+      return (task) => task.tags.some((tag) => tag.toLowerCase() === word.slice(1));
+    }
+    return (task) => `${task.title} ${task.description ?? ""}`.toLowerCase().includes(word);
+  }
+
+  switch (key) {
+    case "project":
+    case "p":
+      return (task) => (task.project ?? "").toLowerCase() === value.toLowerCase();
+    case "tag":
+    case "t":
+      return (task) => task.tags.some((tag) => tag.toLowerCase() === value.toLowerCase());
+    case "due": {
+      const word = value.toLowerCase();
+      if (word === "none") return (task) => !task.dueDate;
+      if (word === "any") return (task) => !!task.dueDate;
+      if (word === "overdue") return (task) => isOverdue(task, todayString);
+
+      const [op, rest] = splitComparison(value);
+      const target = resolveDate(rest, today);
+      if (!target) {
+        errors.push(`Unknown date "${rest}" in ${term}`);
+        return null;
+      }
+      return (task) => !!task.dueDate && compare(task.dueDate, target, op);
+    }
+    case "priority":
+    case "pri": {
+      const [op, rest] = splitComparison(value.toLowerCase());
+      const rank = PRIORITY_RANK[rest as Task["priority"]];
+      if (rank === undefined) {
+        errors.push(`Unknown priority "${rest}" in ${term}`);
+        return null;
+      }
+      return (task) => compare(PRIORITY_RANK[task.priority], rank, op);
+    }
+    default:
+      errors.push(`Unknown filter "${key}:"`);
+      return null;
+  }
+}
+
+export function compileTaskQuery(query: string, today: Date = new Date()): CompiledTaskQuery {
+  const errors: string[] = [];
+  const predicates: Predicate[] = [];
+
+  (query.match(TERM_PATTERN) ?? []).forEach((raw) => {
+    const negated = raw.startsWith("-") && raw.length > 1;
+    const predicate = compileTerm(negated ? raw.slice(1) : raw, today, errors);
+    if (predicate) predicates.push(negated ? (task) => !predicate(task) : predicate);
+  });
+
+  return { matches: (task) => predicates.every((predicate) => predicate(task)), errors };
+}
+
+export function sortTasks(tasks: Task[], sort: TaskSort): Task[] {
+  const sorted = [...tasks];
+  switch (sort) {
+    case "due":
+      // Tasks without a due date go last
+      return sorted.sort((a, b) => (a.dueDate ?? "9999").localeCompare(b.dueDate ?? "9999") || a.order - b.order);
+    case "priority":
+      return sorted.sort(
+        (a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || (a.dueDate ?? "9999").localeCompare(b.dueDate ?? "9999")
+      );
+    case "created":
+      return sorted.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    default:
+      return sorted.sort((a, b) => a.order - b.order);
+  }
+}
+
+// Quote a value for use in a query if it contains spaces
+export const queryValue = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
@@ -0,0 +1,202 @@
+import { format, startOfDay } from "date-fns";
+import { getNextOccurrence } from "@/lib/recurrence";
+import type { BoardColumn, Task } from "@/lib/stores";
+
+// Helpers for the task tree. Subtasks live in the same flat list as their
+// parents and point to them through `parentId`.
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+  // 0-1, counting partly finished subtasks by their own progress
+  ratio: number;
+}
+
+// Today as a due date (yyyy-MM-dd), in local time
+export const todayString = (now: Date = new Date()) => format(now, "yyyy-MM-dd");
+
+// 90 -> "1h 30m"
+export const formatEstimate = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ""}` : `${minutes}m`;
+
+export const getSubtasks = (tasks: Task[], parentId: string) => tasks.filter((task) => task.parentId === parentId);
+
+export function getDescendantIds(tasks: Task[], id: string): string[] {
+  return getSubtasks(tasks, id).flatMap((child) => [child.id, ...getDescendantIds(tasks, child.id)]);
+}
+
+export function getAncestorIds(tasks: Task[], id: string): string[] {
+  const ids: string[] = [];
+  let current = tasks.find((task) => task.id === id);
+  while (current?.parentId && !ids.includes(current.parentId)) {
+    ids.push(current.parentId);
+    current = tasks.find((task) => task.id === current?.parentId);
+  }
+  return ids;
+}
+
+// Progress over a task's direct subtasks and checklist items. Returns null
+// for tasks with neither.
+export function getTaskProgress(tasks: Task[], task: Task): TaskProgress | null {
+  const subtasks = getSubtasks(tasks, task.id);
+  const total = subtasks.length + task.checklist.length;
+  if (total === 0) return null;
+
+  const done = subtasks.filter((subtask) => subtask.completed).length + task.checklist.filter((item) => item.done).length;
+  const partial = subtasks.reduce(
+    (sum, subtask) => sum + (subtask.completed ? 1 : getTaskProgress(tasks, subtask)?.ratio ?? 0),
+    0
+  );
+  const ratio = task.completed ? 1 : (partial + task.checklist.filter((item) => item.done).length) / total;
+  return { done, total, ratio };
+}
+
+// The column a task shows in on the board. Tasks whose column was removed
+// fall back to the first column matching their completion.
+export function getTaskColumn(columns: BoardColumn[], task: Task): BoardColumn {
+  return (
+    columns.find((column) => column.id === task.status) ??
+    columns.find((column) => column.done === task.completed) ??
+    columns[0]
+  );
+}
+
+// The status a task takes when it's completed or reopened outside the board.
+// It stays put if its column already agrees.
+export function statusForCompletion(columns: BoardColumn[], task: Task, completed: boolean): string {
+  const current = columns.find((column) => column.id === task.status);
+  if (current && current.done === completed) return current.id;
+  return (columns.find((column) => column.done === completed) ?? current ?? columns[0]).id;
+}
+
+// Move a task into a column, before `beforeId` or at the end. Only the moved
+// task's order changes: it takes a value between its new neighbours.
+export function moveTaskToColumn(tasks: Task[], columns: BoardColumn[], id: string, column: BoardColumn, beforeId?: string) {
+  const cards = tasks
+    .filter((task) => task.id !== id && getTaskColumn(columns, task).id === column.id)
+    .sort((a, b) => a.order - b.order);
+  const index = beforeId ? cards.findIndex((task) => task.id === beforeId) : -1;
+
+  let order: number;
+  if (index === -1) {
+    order = cards.length ? cards[cards.length - 1].order + 1 : 0;
+  } else if (index === 0) {
+    order = cards[0].order - 1;
+  } else {
+    order = (cards[index - 1].order + cards[index].order) / 2;
+  }
+
+  const task = tasks.find((t) => t.id === id);
+  const completedAt = column.done ? (task?.completed ? task.completedAt : new Date().toISOString()) : undefined;
+  const moved = tasks.map((t) =>
+    t.id === id ? { ...t, status: column.id, completed: column.done, completedAt, order } : t
+  );
+  return task && !task.completed && column.done ? spawnNextInstances(moved, columns, [id]) : moved;
+}
+
+// The first occurrence of a recurring task's rule after it was completed.
+// Occurrences that passed while the task was overdue are skipped, but one
+// falling on the completion day itself still counts.
+function nextDueDate(task: Task, completedAt: Date): string {
+  const rule = task.recurrence!;
+  const time = rule.anchor.slice(10);
+  const completedDay = `${format(completedAt, "yyyy-MM-dd")}${time}`;
+  if (task.repeatFrom === "completion") {
+    // Counted in whole intervals from the completion day, whatever weekday it was
+    const fromCompletion = { ...rule, anchor: completedDay, daysOfWeek: undefined };
+    return getNextOccurrence(fromCompletion, completedDay, completedAt).slice(0, 10);
+  }
+  const current = task.dueDate ? `${task.dueDate}${time}` : completedDay;
+  return getNextOccurrence(rule, current, new Date(startOfDay(completedAt).getTime() - 1)).slice(0, 10);
+}
+
+// Hand each newly completed recurring task's rule and history over to a new
+// instance due on its next occurrence. The completed one is left as a plain
+// task, so reopening it doesn't spawn a second series. The new instance is
+// ordered like a new task (first, or after its siblings for a subtask), and
+// subtasks still open move over to it; finished ones stay with the instance
+// they were done for.
+function spawnNextInstances(tasks: Task[], columns: BoardColumn[], ids: string[], completedAt: Date = new Date()) {
+  const spawned: Task[] = [];
+  // Completed instance id -> the instance taking over from it
+  const successors = new Map<string, string>();
+  const siblingOrders = (parentId: string | undefined) =>
+    [...tasks, ...spawned].filter((task) => task.parentId === parentId).map((task) => task.order);
+
+  const updated = tasks.map((task) => {
+    if (!ids.includes(task.id) || !task.completed || !task.recurrence) return task;
+
+    const history = [...(task.history ?? []), { dueDate: task.dueDate, completedAt: completedAt.toISOString() }];
+    const id = crypto.randomUUID();
+    successors.set(task.id, id);
+    spawned.push({
+      ...task,
+      id,
+      order: task.parentId ? Math.max(0, ...siblingOrders(task.parentId)) + 1 : Math.min(0, ...siblingOrders(undefined)) - 1,
+      completed: false,
+      status: (columns.find((column) => !column.done) ?? columns[0]).id,
+      dueDate: nextDueDate(task, completedAt),
+      createdAt: completedAt.toISOString(),
+      completedAt: undefined,
+      plannedFor: undefined,
+      checklist: task.checklist.map((item) => ({ ...item, done: false })),
+      history,
+    });
+    return { ...task, recurrence: undefined, repeatFrom: undefined, history: undefined };
+  });
+  return [...spawned, ...updated].map((task) => {
+    const successor = task.parentId && successors.get(task.parentId);
+    return successor && !task.completed ? { ...task, parentId: successor } : task;
+  });
+}
+
+// Complete or reopen tasks, moving them to a matching board column and
+// spawning the next instance of any recurring ones being completed
+export function setTasksCompleted(tasks: Task[], columns: BoardColumn[], ids: string[], completed: boolean) {
+  const changed = tasks.filter((task) => ids.includes(task.id) && task.completed !== completed).map((task) => task.id);
+  const completedAt = completed ? new Date().toISOString() : undefined;
+  const updated = tasks.map((task) =>
+    changed.includes(task.id)
+      ? { ...task, completed, completedAt, status: statusForCompletion(columns, task, completed) }
+      : task
+  );
+  return completed ? spawnNextInstances(updated, columns, changed) : updated;
+}
+
+// Consecutive completions, most recent first, that were done by their due
+// date. An open instance that's already overdue breaks the streak.
+export function getStreak(task: Task, today: Date = new Date()): number {
+  if (!task.completed && task.dueDate && task.dueDate < format(today, "yyyy-MM-dd")) return 0;
+
+  let streak = 0;
+  for (const entry of [...(task.history ?? [])].reverse()) {
+    if (entry.dueDate && format(new Date(entry.completedAt), "yyyy-MM-dd") > entry.dueDate) break;
+    streak++;
+  }
+  return streak;
+}
+
+// After the columns change, move tasks out of removed columns and keep
+// `completed` in step with columns whose done flag was toggled.
+export function applyBoardColumns(tasks: Task[], columns: BoardColumn[]) {
+  return tasks.map((task) => {
+    const column = getTaskColumn(columns, task);
+    return column.id === task.status && column.done === task.completed
+      ? task
+      : {
+          ...task,
+          status: column.id,
+          completed: column.done,
+          completedAt: column.done ? task.completedAt ?? new Date().toISOString() : undefined,
+        };
+  });
+}
+
+// Whether a task belongs on the Today plan: open tasks that are overdue, due
+// today or were picked for today (or an earlier day and not done yet), plus
+// those finished today
+export function isOnTodayPlan(task: Task, today: string = todayString()): boolean {
+  const scheduled = (!!task.dueDate && task.dueDate <= today) || (!!task.plannedFor && task.plannedFor <= today);
+  if (!task.completed) return scheduled;
+  return scheduled && !!task.completedAt && todayString(new Date(task.completedAt)) === today;
+}
@@ -0,0 +1,290 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from "react";
+import {
+  Archive,
+  Bell,
+  BookOpen,
+  Calendar,
+  CheckSquare,
+  Clock4,
+  CloudSun,
+  DollarSign,
+  FileImage,
+  FileText,
+  FolderOpen,
+  Hash,
+  Key,
+  Merge,
+  Mic,
+  PenTool,
+  QrCode,
+  Scale,
+  StickyNote,
+  Timer,
+  Wrench,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+
+export type ToolCategoryId = "productivity" | "files" | "writing" | "utilities";
+
+export interface ToolCategory {
+  id: ToolCategoryId;
+  title: string;
+  icon: LucideIcon;
+}
+
+export interface ToolDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  category: ToolCategoryId;
+  route: string;
+  keywords: string[];
+  gradient: string;
+  component: LazyExoticComponent<ComponentType>;
+}
+
+export const toolCategories: ToolCategory[] = [
+  { id: "productivity", title: "Productivity", icon: Zap },
+  { id: "files", title: "File Tools", icon: FolderOpen },
+  { id: "writing", title: "Writing & Text", icon: PenTool },
+  { id: "utilities", title: "Utilities", icon: Wrench },
+];
+
+// Every tool lives here exactly once. The dashboard, sidebar and router all
+// read from this list, and each page is code-split into its own chunk.
+export const tools: ToolDefinition[] = [
+  // Productivity
+  {
+    id: "reminders",
+    title: "Reminders",
+    description: "Set reminders with notification pop-ups",
+    icon: Bell,
+    category: "productivity",
+    route: "/reminders",
+    keywords: ["alarm", "alert", "notify", "notification"],
+    gradient: "from-blue-500 to-blue-600",
+    component: lazy(() => import("@/pages/tools/Reminders")),
+  },
+  {
+    id: "day-counter",
+    title: "Day Counter",
+    description: "Count days to events or since dates",
+    icon: Calendar,
+    category: "productivity",
+    route: "/day-counter",
+    keywords: ["countdown", "count up", "anniversary", "days until", "days since"],
+    gradient: "from-purple-500 to-purple-600",
+    component: lazy(() => import("@/pages/tools/DayCounter")),
+  },
+  {
+    id: "todo",
+    title: "To-Do List",
+    description: "Manage tasks with priorities and deadlines",
+    icon: CheckSquare,
+    category: "productivity",
+    route: "/todo",
+    keywords: ["tasks", "todo", "checklist", "deadline"],
+    gradient: "from-green-500 to-green-600",
+    component: lazy(() => import("@/pages/tools/TodoList")),
+  },
+  {
+    id: "notes",
+    title: "Notes",
+    description: "Save, edit, and organize your notes",
+    icon: StickyNote,
+    category: "productivity",
+    route: "/notes",
+    keywords: ["notebook", "journal", "memo", "writing"],
+    gradient: "from-yellow-500 to-orange-500",
+    component: lazy(() => import("@/pages/tools/Notes")),
+  },
+  {
+    id: "pomodoro",
+    title: "Pomodoro Timer",
+    description: "Focus timer with work and break cycles",
+    icon: Timer,
+    category: "productivity",
+    route: "/pomodoro",
+    keywords: ["focus", "timer", "break", "tomato"],
+    gradient: "from-red-500 to-red-600",
+    component: lazy(() => import("@/pages/tools/PomodoroTimer")),
+  },
+  {
+    id: "calendar",
+    title: "Calendar",
+    description: "Monthly calendar with event management",
+    icon: Calendar,
+    category: "productivity",
+    route: "/calendar",
+    keywords: ["events", "schedule", "month", "agenda"],
+    gradient: "from-indigo-500 to-indigo-600",
+    component: lazy(() => import("@/pages/tools/Calendar")),
+  },
+
+  // File Tools
+  {
+    id: "image-to-pdf",
+    title: "Image to PDF",
+    description: "Convert images to PDF documents",
+    icon: FileImage,
+    category: "files",
+    route: "/image-to-pdf",
+    keywords: ["jpg", "png", "convert", "pdf"],
+    gradient: "from-teal-500 to-teal-600",
+    component: lazy(() => import("@/pages/tools/ImageToPdf")),
+  },
+  {
+    id: "pdf-to-image",
+    title: "PDF to Image",
+    description: "Extract PDF pages as images",
+    icon: FileImage,
+    category: "files",
+    route: "/pdf-to-image",
+    keywords: ["png", "extract", "pages", "convert"],
+    gradient: "from-cyan-500 to-cyan-600",
+    component: lazy(() => import("@/pages/tools/PdfToImage")),
+  },
+  {
+    id: "file-merger",
+    title: "File Merger",
+    description: "Merge and split PDF files",
+    icon: Merge,
+    category: "files",
+    route: "/file-merger",
+    keywords: ["pdf", "combine", "join", "split"],
+    gradient: "from-pink-500 to-pink-600",
+    component: lazy(() => import("@/pages/tools/FileMerger")),
+  },
+  {
+    id: "image-compressor",
+    title: "Image Compressor",
+    description: "Reduce image file sizes efficiently",
+    icon: Archive,
+    category: "files",
+    route: "/image-compressor",
+    keywords: ["shrink", "optimize", "jpeg", "resize"],
+    gradient: "from-violet-500 to-violet-600",
+    component: lazy(() => import("@/pages/tools/ImageCompressor")),
+  },
+
+  // Writing & Text
+  {
+    id: "text-summarizer",
+    title: "Text Summarizer",
+    description: "Summarize long text into key points",
+    icon: FileText,
+    category: "writing",
+    route: "/text-summarizer",
+    keywords: ["summary", "tldr", "key points", "shorten"],
+    gradient: "from-emerald-500 to-emerald-600",
+    component: lazy(() => import("@/pages/tools/TextSummarizer")),
+  },
+  {
+    id: "word-counter",
+    title: "Word Counter",
+    description: "Count words, characters, and lines",
+    icon: Hash,
+    category: "writing",
+    route: "/word-counter",
+    keywords: ["characters", "count", "reading time", "statistics"],
+    gradient: "from-lime-500 to-lime-600",
+    component: lazy(() => import("@/pages/tools/WordCounter")),
+  },
+  {
+    id: "voice-to-text",
+    title: "Voice to Text",
+    description: "Convert speech to editable text",
+    icon: Mic,
+    category: "writing",
+    route: "/voice-to-text",
+    keywords: ["speech", "dictation", "transcribe", "microphone"],
+    gradient: "from-rose-500 to-rose-600",
+    component: lazy(() => import("@/pages/tools/VoiceToText")),
+  },
+  {
+    id: "dictionary",
+    title: "Dictionary",
+    description: "Look up definitions and synonyms",
+    icon: BookOpen,
+    category: "writing",
+    route: "/dictionary",
+    keywords: ["define", "definition", "synonym", "meaning"],
+    gradient: "from-amber-500 to-amber-600",
+    component: lazy(() => import("@/pages/tools/Dictionary")),
+  },
+  {
+    id: "password-generator",
+    title: "Password Generator",
+    description: "Generate and manage secure passwords",
+    icon: Key,
+    category: "writing",
+    route: "/password-generator",
+    keywords: ["secure", "random", "passphrase", "credentials"],
+    gradient: "from-slate-500 to-slate-600",
+    component: lazy(() => import("@/pages/tools/PasswordGenerator")),
+  },
+
+  // Utilities
+  {
+    id: "qr-code",
+    title: "QR Code",
+    description: "Generate and scan QR codes",
+    icon: QrCode,
+    category: "utilities",
+    route: "/qr-code",
+    keywords: ["barcode", "scan", "wifi", "link"],
+    gradient: "from-stone-500 to-stone-600",
+    component: lazy(() => import("@/pages/tools/QRCode")),
+  },
+  {
+    id: "currency-converter",
+    title: "Currency Converter",
+    description: "Convert between currencies",
+    icon: DollarSign,
+    category: "utilities",
+    route: "/currency-converter",
+    keywords: ["money", "exchange", "rate", "forex"],
+    gradient: "from-zinc-500 to-zinc-600",
+    component: lazy(() => import("@/pages/tools/CurrencyConverter")),
+  },
+  {
+    id: "unit-converter",
+    title: "Unit Converter",
+    description: "Convert units of measurement",
+    icon: Scale,
+    category: "utilities",
+    route: "/unit-converter",
+    keywords: ["length", "weight", "temperature", "metric"],
+    gradient: "from-neutral-500 to-neutral-600",
+    component: lazy(() => import("@/pages/tools/UnitConverter")),
+  },
+  {
+    id: "stopwatch",
+    title: "Stopwatch",
+    description: "Precise timing and countdown tools",
+    icon: Clock4,
+    category: "utilities",
+    route: "/stopwatch",
+    keywords: ["timer", "lap", "countdown", "time"],
+    gradient: "from-sky-500 to-sky-600",
+    component: lazy(() => import("@/pages/tools/Stopwatch")),
+  },
+  {
+    id: "weather",
+    title: "Weather",
+    description: "Check current weather conditions",
+    icon: CloudSun,
+    category: "utilities",
+    route: "/weather",
+    keywords: ["forecast", "temperature", "rain", "climate"],
+    gradient: "from-blue-400 to-blue-500",
+    component: lazy(() => import("@/pages/tools/Weather")),
+  },
+];
+
+export const getToolsByCategory = (category: ToolCategoryId) =>
+  tools.filter((tool) => tool.category === category);
+
+export const getToolById = (id: string) => tools.find((tool) => tool.id === id);
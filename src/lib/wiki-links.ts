@@ -0,0 +1,85 @@
+import type { Note } from "@/lib/stores";
+
+// Wiki-style links between notes: [[Note Title]] or [[Note Title|label]].
+// Notes are matched by title, ignoring case and surrounding whitespace.
+
+export const WIKI_LINK = /\[\[([^[\]|\n]+?)(?:\|([^[\]\n]+?))?\]\]/g;
+
+const FENCE = /^\s*(```|~~~)/;
+
+export const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+export function findNoteByTitle(notes: Note[], title: string): Note | undefined {
+  const wanted = normalizeTitle(title);
+  return notes.find(note => normalizeTitle(note.title) === wanted);
+}
+
+// Run `fn` over each line outside fenced code, which is rendered verbatim
+function mapProseLines(content: string, fn: (line: string) => string): string {
+  let inFence = false;
+  return content
+    .split("\n")
+    .map(line => {
+      if (FENCE.test(line)) {
+        inFence = !inFence;
+        return line;
+      }
+      return inFence ? line : fn(line);
+    })
+    .join("\n");
+}
+
+// The titles a note links to, deduplicated
+export function extractWikiLinks(content: string): string[] {
+  const titles = new Map<string, string>();
+  mapProseLines(content, line => {
+    // Inline code is verbatim too
+    for (const match of line.replace(/`[^`]*`/g, "").matchAll(WIKI_LINK)) {
+      const title = match[1].trim();
+      if (!titles.has(normalizeTitle(title))) titles.set(normalizeTitle(title), title);
+    }
+    return line;
+  });
+  return [...titles.values()];
+}
+
+export function linksTo(content: string, title: string): boolean {
+  const wanted = normalizeTitle(title);
+  return extractWikiLinks(content).some(link => normalizeTitle(link) === wanted);
+}
+
+// Notes other than `note` that link to it
+export function getBacklinks(notes: Note[], note: Note): Note[] {
+  return notes.filter(other => other.id !== note.id && linksTo(other.content, note.title));
+}
+
+// The first line of `content` mentioning the link, for backlink previews
+export function getLinkContext(content: string, title: string): string {
+  const wanted = normalizeTitle(title);
+  const line = content
+    .split("\n")
+    .find(line => [...line.matchAll(WIKI_LINK)].some(match => normalizeTitle(match[1]) === wanted));
+  return line?.trim() ?? "";
+}
+
+// Point links at a renamed note, keeping any custom labels
+export function renameWikiLinks(content: string, oldTitle: string, newTitle: string): string {
+  const wanted = normalizeTitle(oldTitle);
+  return mapProseLines(content, line =>
+    line.replace(WIKI_LINK, (link, title: string, label?: string) => {
+      if (normalizeTitle(title) !== wanted) return link;
+      return label ? `[[${newTitle}|${label}]]` : `[[${newTitle}]]`;
+    })
+  );
+}
+
+// The unfinished link being typed before the cursor, for autocomplete
+export function getWikiLinkQuery(text: string, cursor: number): { start: number; query: string } | null {
+  const before = text.slice(0, cursor);
+  const open = before.lastIndexOf("[[");
+  if (open === -1) return null;
+
+  const query = before.slice(open + 2);
+  if (/[[\]|\n]/.test(query)) return null;
+  return { start: open + 2, query };
+}
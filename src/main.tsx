@@ -1,5 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/service-worker'
 import './index.css'
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+registerServiceWorker();
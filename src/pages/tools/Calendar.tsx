@@ -1,21 +1,18 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Calendar as CalendarIcon, Plus, Trash2, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-
-interface CalendarEvent {
-  id: string;
-  title: string;
-  date: string;
-  time: string;
-  description?: string;
-}
+import { focusItemDomId, useFocusItem } from "@/hooks/use-focus-item";
+import { useStoredState } from "@/hooks/use-stored-state";
+import { calendarEventsStore, type CalendarEvent } from "@/lib/stores";
+import { QuickEntryInput } from "@/components/QuickEntryInput";
+import type { ParsedEntry } from "@/lib/quick-entry";
 
 export default function Calendar() {
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [events, setEvents] = useStoredState(calendarEventsStore);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<string>("");
   const [showAddEvent, setShowAddEvent] = useState(false);
@@ -25,17 +22,20 @@ export default function Calendar() {
     description: ""
   });
   const { toast } = useToast();
+  const focusedId = useFocusItem(events.length);
+  const openedFocusRef = useRef<string | null>(null);
 
+  // Jump to the month of the event requested via the command palette
   useEffect(() => {
-    const saved = localStorage.getItem("productivity-calendar-events");
-    if (saved) {
-      setEvents(JSON.parse(saved));
+    if (!focusedId || openedFocusRef.current === focusedId) return;
+    const event = events.find(e => e.id === focusedId);
+    if (event) {
+      openedFocusRef.current = focusedId;
+      const [year, month] = event.date.split("-").map(Number);
+      setCurrentDate(new Date(year, month - 1, 1));
+      setSelectedDate(event.date);
     }
-  }, []);
-
-  useEffect(() => {
-    localStorage.setItem("productivity-calendar-events", JSON.stringify(events));
-  }, [events]);
+  }, [focusedId, events]);
 
   const getDaysInMonth = (date: Date) => {
     return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
@@ -53,29 +53,47 @@ export default function Calendar() {
     return events.filter(event => event.date === dateStr);
   };
 
+  const createEvent = (event: CalendarEvent) => {
+    setEvents(prev => [...prev, event].sort((a, b) => {
+      if (a.date !== b.date) return a.date.localeCompare(b.date);
+      return a.time.localeCompare(b.time);
+    }));
+
+    toast({
+      title: "Event Added",
+      description: `Event scheduled for ${new Date(event.date).toLocaleDateString()}`,
+    });
+  };
+
   const addEvent = () => {
     if (!newEvent.title.trim() || !selectedDate) return;
 
-    const event: CalendarEvent = {
+    createEvent({
       id: crypto.randomUUID(),
       title: newEvent.title.trim(),
       date: selectedDate,
       time: newEvent.time || "00:00",
       description: newEvent.description.trim()
-    };
-
-    setEvents(prev => [...prev, event].sort((a, b) => {
-      if (a.date !== b.date) return a.date.localeCompare(b.date);
-      return a.time.localeCompare(b.time);
-    }));
-
+    });
     setNewEvent({ title: "", time: "", description: "" });
     setShowAddEvent(false);
-    
-    toast({
-      title: "Event Added",
-      description: `Event scheduled for ${new Date(selectedDate).toLocaleDateString()}`,
+  };
+
+  // Events without a parsed date go on the selected day, or today
+  const addQuickEvent = (entry: ParsedEntry) => {
+    const today = new Date();
+    const date = entry.date ?? (selectedDate || formatDate(today.getFullYear(), today.getMonth(), today.getDate()));
+
+    createEvent({
+      id: crypto.randomUUID(),
+      title: entry.title,
+      date,
+      time: entry.time ?? "00:00",
+      description: "",
     });
+    const [year, month] = date.split("-").map(Number);
+    setCurrentDate(new Date(year, month - 1, 1));
+    setSelectedDate(date);
   };
 
   const deleteEvent = (id: string) => {
@@ -130,7 +148,10 @@ export default function Calendar() {
             {dayEvents.slice(0, 2).map((event) => (
               <div
                 key={event.id}
-                className="text-xs bg-primary/20 text-primary px-1 py-0.5 rounded truncate"
+                id={focusItemDomId(event.id)}
+                className={`text-xs bg-primary/20 text-primary px-1 py-0.5 rounded truncate ${
+                  focusedId === event.id ? "ring-2 ring-primary" : ""
+                }`}
                 title={event.title}
               >
                 {event.time} {event.title}
@@ -166,6 +187,16 @@ export default function Calendar() {
         <p className="text-muted-foreground">Monthly calendar with event management</p>
       </div>
 
+      <Card>
+        <CardContent className="p-4">
+          <QuickEntryInput
+            placeholder='Try "dentist june 3rd at 2:15pm"'
+            fields={["date", "time"]}
+            onSubmit={addQuickEvent}
+          />
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Calendar Grid */}
         <Card className="lg:col-span-2">
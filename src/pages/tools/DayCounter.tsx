@@ -1,40 +1,26 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Calendar, Plus, Trash2, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-
-interface Event {
-  id: string;
-  title: string;
-  date: string;
-  type: "countdown" | "countup";
-}
+import { focusItemDomId, useFocusItem } from "@/hooks/use-focus-item";
+import { useStoredState } from "@/hooks/use-stored-state";
+import { dayCounterStore, type DayCounterEvent } from "@/lib/stores";
 
 export default function DayCounter() {
-  const [events, setEvents] = useState<Event[]>([]);
+  const [events, setEvents] = useStoredState(dayCounterStore);
   const [newTitle, setNewTitle] = useState("");
   const [newDate, setNewDate] = useState("");
   const [eventType, setEventType] = useState<"countdown" | "countup">("countdown");
   const { toast } = useToast();
-
-  useEffect(() => {
-    const saved = localStorage.getItem("productivity-day-counter");
-    if (saved) {
-      setEvents(JSON.parse(saved));
-    }
-  }, []);
-
-  useEffect(() => {
-    localStorage.setItem("productivity-day-counter", JSON.stringify(events));
-  }, [events]);
+  const focusedId = useFocusItem(events.length);
 
   const addEvent = () => {
     if (!newTitle.trim() || !newDate) return;
 
-    const event: Event = {
+    const event: DayCounterEvent = {
       id: crypto.randomUUID(),
       title: newTitle.trim(),
       date: newDate,
@@ -145,7 +131,11 @@ export default function DayCounter() {
           </Card>
         ) : (
           events.map((event) => (
-            <Card key={event.id}>
+            <Card
+              key={event.id}
+              id={focusItemDomId(event.id)}
+              className={focusedId === event.id ? "ring-2 ring-primary" : ""}
+            >
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div className="flex-1 space-y-1">
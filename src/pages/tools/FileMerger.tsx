@@ -4,17 +4,12 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useStoredState } from "@/hooks/use-stored-state";
+import { fileMergerQueueStore, type MergeFile } from "@/lib/stores";
 import { PDFDocument } from 'pdf-lib';
 
-interface FileItem {
-  id: string;
-  file: File;
-  name: string;
-  size: string;
-}
-
 export default function FileMerger() {
-  const [files, setFiles] = useState<FileItem[]>([]);
+  const [files, setFiles] = useStoredState(fileMergerQueueStore);
   const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -40,7 +35,7 @@ export default function FileMerger() {
       return;
     }
 
-    const newFiles: FileItem[] = pdfFiles.map(file => ({
+    const newFiles: MergeFile[] = pdfFiles.map(file => ({
       id: crypto.randomUUID(),
       file,
       name: file.name,
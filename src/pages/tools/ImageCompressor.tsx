@@ -1,28 +1,17 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo } from "react";
 import { Archive, Upload, Download, Trash2, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-
-interface CompressedImage {
-  id: string;
-  original: {
-    file: File;
-    dataUrl: string;
-    size: number;
-  };
-  compressed: {
-    dataUrl: string;
-    size: number;
-  };
-  quality: number;
-  compressionRatio: number;
-}
+import { useStoredState } from "@/hooks/use-stored-state";
+import { useObjectUrls } from "@/hooks/use-object-urls";
+import { imageCompressorQueueStore, type CompressedImage } from "@/lib/stores";
 
 export default function ImageCompressor() {
-  const [images, setImages] = useState<CompressedImage[]>([]);
+  const [images, setImages] = useStoredState(imageCompressorQueueStore);
+  const getOriginalUrl = useObjectUrls(useMemo(() => images.map(img => img.original.file), [images]));
   const [quality, setQuality] = useState([80]);
   const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -80,7 +69,6 @@ export default function ImageCompressor() {
       const newImages: CompressedImage[] = [];
       
       for (const file of imageFiles) {
-        const originalDataUrl = URL.createObjectURL(file);
         const compressed = await compressImage(file, quality[0]);
         const compressionRatio = ((file.size - compressed.size) / file.size) * 100;
         
@@ -88,7 +76,6 @@ export default function ImageCompressor() {
           id: crypto.randomUUID(),
           original: {
             file,
-            dataUrl: originalDataUrl,
             size: file.size,
           },
           compressed,
@@ -236,7 +223,7 @@ export default function ImageCompressor() {
                     <div className="space-y-2">
                       <h4 className="font-medium">Original</h4>
                       <img
-                        src={image.original.dataUrl}
+                        src={getOriginalUrl(image.original.file)}
                         alt="Original"
                         className="w-full h-32 object-contain border rounded bg-muted"
                       />
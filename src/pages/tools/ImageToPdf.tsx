@@ -1,18 +1,16 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo } from "react";
 import { FileImage, Upload, Download, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useStoredState } from "@/hooks/use-stored-state";
+import { useObjectUrls } from "@/hooks/use-object-urls";
+import { imageToPdfQueueStore, type UploadedImage } from "@/lib/stores";
 import { jsPDF } from 'jspdf';
 
-interface UploadedImage {
-  id: string;
-  file: File;
-  url: string;
-}
-
 export default function ImageToPdf() {
-  const [images, setImages] = useState<UploadedImage[]>([]);
+  const [images, setImages] = useStoredState(imageToPdfQueueStore);
+  const getImageUrl = useObjectUrls(useMemo(() => images.map(img => img.file), [images]));
   const [isGenerating, setIsGenerating] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -28,7 +26,6 @@ export default function ImageToPdf() {
         validImages.push({
           id: crypto.randomUUID(),
           file,
-          url: URL.createObjectURL(file)
         });
       }
     }
@@ -49,13 +46,7 @@ export default function ImageToPdf() {
   };
 
   const removeImage = (id: string) => {
-    setImages(prev => {
-      const imageToRemove = prev.find(img => img.id === id);
-      if (imageToRemove) {
-        URL.revokeObjectURL(imageToRemove.url);
-      }
-      return prev.filter(img => img.id !== id);
-    });
+    setImages(prev => prev.filter(img => img.id !== id));
   };
 
   const moveImage = (id: string, direction: 'up' | 'down') => {
@@ -128,11 +119,11 @@ export default function ImageToPdf() {
             const y = (pageHeight - height) / 2;
             
             // Add image to PDF
-            pdf.addImage(imageData.url, 'JPEG', x, y, width, height);
+            pdf.addImage(getImageUrl(imageData.file), 'JPEG', x, y, width, height);
             resolve();
           };
           img.onerror = reject;
-          img.src = imageData.url;
+          img.src = getImageUrl(imageData.file);
         });
       }
 
@@ -217,10 +208,7 @@ export default function ImageToPdf() {
                 </Button>
                 <Button
                   variant="outline"
-                  onClick={() => {
-                    images.forEach(img => URL.revokeObjectURL(img.url));
-                    setImages([]);
-                  }}
+                  onClick={() => setImages([])}
                 >
                   Clear All
                 </Button>
@@ -232,7 +220,7 @@ export default function ImageToPdf() {
               {images.map((image, index) => (
                 <div key={image.id} className="border rounded-lg p-4 space-y-3">
                   <img
-                    src={image.url}
+                    src={getImageUrl(image.file)}
                     alt={`Image ${index + 1}`}
                     className="w-full h-32 object-cover rounded"
                   />
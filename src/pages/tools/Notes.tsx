@@ -1,92 +1,484 @@
-import { useState, useEffect } from "react";
-import { StickyNote, Plus, Trash2, Edit3, Search, Save } from "lucide-react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import {
+  StickyNote,
+  Plus,
+  Trash2,
+  Edit3,
+  Search,
+  Save,
+  Link2,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  FolderClosed,
+  Hash,
+  X,
+  ChevronDown,
+  CalendarDays,
+  FileText,
+  LayoutTemplate,
+  Download,
+  Lock,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { focusItemDomId, useFocusItem } from "@/hooks/use-focus-item";
+import { useStoredState } from "@/hooks/use-stored-state";
+import { useNoteVault } from "@/hooks/use-note-vault";
+import { useAttachmentVault } from "@/hooks/use-attachment-vault";
+import {
+  journalSettingsStore,
+  noteAttachmentsStore,
+  notebooksStore,
+  noteHistorySettingsStore,
+  noteLockSettingsStore,
+  noteRevisionsStore,
+  notesStore,
+  noteTemplatesStore,
+  type Note,
+  type Notebook,
+  type NoteAttachment,
+  type NoteHistorySettings,
+  type NoteRevision,
+  type NoteTemplate,
+} from "@/lib/stores";
+import { stripMarkdown, toggleTaskItem } from "@/lib/markdown";
+import {
+  buildNotebookTree,
+  filterNotes,
+  flattenNotebookTree,
+  getNotebookPath,
+  getNotebookSubtree,
+  NOTE_DRAG_TYPE,
+  parseTags,
+  sortNotes,
+  type NoteFilter,
+} from "@/lib/notebooks";
+import { applyTemplate, BUILT_IN_TEMPLATES, JOURNAL_TEMPLATE_ID, journalMoment } from "@/lib/note-templates";
+import { todayString } from "@/lib/tasks";
+import { applyRetention, getNoteRevisions, recordRevision } from "@/lib/note-history";
+import { attachmentMarkdown, createAttachment, findAttachmentIds, formatFileSize, MAX_ATTACHMENT_SIZE } from "@/lib/note-attachments";
+import {
+  downloadFile,
+  exportNoteHtml,
+  exportNoteMarkdown,
+  exportNotePdf,
+  type ExportedFile,
+  type ImportedNotes,
+} from "@/lib/note-export";
+import { createNotebookCheck, deriveKey, getEncryptedNotebook, newKeyParams } from "@/lib/note-crypto";
+import { getSnippet, highlightText, NoteSearchIndex, rankNotes } from "@/lib/note-search";
+import { findNoteByTitle, getBacklinks, getLinkContext, normalizeTitle, renameWikiLinks } from "@/lib/wiki-links";
+import { MarkdownEditor } from "@/components/MarkdownEditor";
+import { MarkdownPreview } from "@/components/MarkdownPreview";
+import { NoteHistorySheet } from "@/components/NoteHistorySheet";
+import { NoteSidebar } from "@/components/NoteSidebar";
+import { NoteTemplatesDialog } from "@/components/NoteTemplatesDialog";
+import { JournalStrip } from "@/components/JournalStrip";
+import { NoteStorageDialog } from "@/components/NoteStorageDialog";
+import { NoteImportExportDialog } from "@/components/NoteImportExportDialog";
+import { NoteEncryptionDialog, NoteUnlockForm } from "@/components/NoteEncryptionDialog";
+import { HighlightedText } from "@/components/HighlightedText";
 
-interface Note {
-  id: string;
-  title: string;
-  content: string;
-  tags: string[];
-  createdAt: string;
-  updatedAt: string;
-}
+const SCOPE_TITLES: Record<NoteFilter["scope"], string> = {
+  all: "All Notes",
+  pinned: "Pinned Notes",
+  archived: "Archived Notes",
+};
 
 export default function Notes() {
-  const [notes, setNotes] = useState<Note[]>([]);
+  const [storedNotes, setStoredNotes, notesLoaded] = useStoredState(notesStore);
+  const [revisions, setRevisions] = useStoredState(noteRevisionsStore);
+  const [historySettings, setHistorySettings] = useStoredState(noteHistorySettingsStore);
+  const [notebooks, setNotebooks] = useStoredState(notebooksStore);
+  const [templates, setTemplates] = useStoredState(noteTemplatesStore);
+  const [journalSettings, setJournalSettings] = useStoredState(journalSettingsStore);
+  const [storedAttachments, setAttachments] = useStoredState(noteAttachmentsStore);
+  const [lockSettings, setLockSettings] = useStoredState(noteLockSettingsStore);
+  // Unlocked notes appear decrypted in `notes`; see useNoteVault
+  const vault = useNoteVault(storedNotes, setStoredNotes, notebooks, lockSettings.autoLockMinutes);
+  const { notes, setNotes } = vault;
+  // Attachments of encrypted notes are encrypted with them
+  const attachmentVault = useAttachmentVault(storedAttachments, setAttachments, storedNotes, vault.keys);
+  const { attachments, readableAttachments } = attachmentVault;
+  const [encryptionTarget, setEncryptionTarget] = useState<{ kind: "note" | "notebook"; id: string } | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
   const [isEditing, setIsEditing] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
+  const [filter, setFilter] = useState<NoteFilter>({ scope: "all", notebookId: null, tag: null, search: "" });
   const [newTitle, setNewTitle] = useState("");
   const [newContent, setNewContent] = useState("");
   const [newTags, setNewTags] = useState("");
+  const [newNotebookId, setNewNotebookId] = useState("");
+  // Where the editor's cursor starts in a note just made from a template
+  const [initialCursor, setInitialCursor] = useState<number | null>(null);
+  // Title of a missing note a wiki link pointed at, pending confirmation
+  const [missingLinkTitle, setMissingLinkTitle] = useState<string | null>(null);
   const { toast } = useToast();
+  const focusedId = useFocusItem(notes.length);
+  const openedFocusRef = useRef<string | null>(null);
+  const initialSelectionRef = useRef(false);
 
-  // Load notes from localStorage
+  // Select the first note once notes have loaded
   useEffect(() => {
-    const saved = localStorage.getItem("productivity-notes");
-    if (saved) {
-      const loadedNotes = JSON.parse(saved);
-      setNotes(loadedNotes);
-      if (loadedNotes.length > 0) {
-        setSelectedNote(loadedNotes[0]);
-      }
+    if (!notesLoaded || initialSelectionRef.current) return;
+    initialSelectionRef.current = true;
+    setSelectedNote(prev => prev ?? notes[0] ?? null);
+  }, [notesLoaded, notes]);
+
+  // Open the note requested via the command palette
+  useEffect(() => {
+    if (!focusedId || openedFocusRef.current === focusedId) return;
+    const note = notes.find(n => n.id === focusedId);
+    if (note) {
+      openedFocusRef.current = focusedId;
+      setSelectedNote(note);
+      setIsEditing(false);
     }
-  }, []);
+  }, [focusedId, notes]);
 
-  // Save notes to localStorage
+  // When the open note locks, close the editor and drop the decrypted copy;
+  // when it unlocks, show the decrypted one
+  const liveSelectedNote = selectedNote ? notes.find(note => note.id === selectedNote.id) : undefined;
+  const selectedLocked = !!liveSelectedNote && vault.isLocked(liveSelectedNote);
+  const selectedLockedRef = useRef(selectedLocked);
   useEffect(() => {
-    localStorage.setItem("productivity-notes", JSON.stringify(notes));
-  }, [notes]);
+    if (selectedLockedRef.current === selectedLocked) return;
+    selectedLockedRef.current = selectedLocked;
+    if (selectedLocked) {
+      setIsEditing(false);
+      setNewContent("");
+    }
+    if (liveSelectedNote) setSelectedNote(liveSelectedNote);
+  }, [selectedLocked, liveSelectedNote]);
+
+  const noteTitles = useMemo(() => notes.map(note => note.title), [notes]);
+
+  // Updated as notes change, re-indexing only the ones that did. Unlocked
+  // notes are searchable while they stay unlocked; locked ones by title.
+  const [searchIndex] = useState(() => new NoteSearchIndex());
+  const searchResults = useMemo(() => {
+    searchIndex.update(notes);
+    return searchIndex.search(filter.search);
+  }, [searchIndex, notes, filter.search]);
+
+  const notebookOptions = flattenNotebookTree(buildNotebookTree(notebooks));
+
+  const updateFilter = (changes: Partial<NoteFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  const notifyNotebookLocked = () =>
+    toast({
+      title: "Notebook Locked",
+      description: "Unlock the notebook before adding notes to it.",
+      variant: "destructive",
+    });
 
-  const createNote = () => {
+  // New notes go into the notebook and tag being browsed
+  const createNote = (
+    options: Partial<Pick<Note, "title" | "content" | "tags" | "notebookId" | "journalDate">> & { cursor?: number | null } = {}
+  ) => {
+    const notebookId = options.notebookId ?? filter.notebookId ?? undefined;
+    if (!vault.canStoreIn(notebookId)) {
+      notifyNotebookLocked();
+      return;
+    }
+
+    const tags = [...new Set([...(options.tags ?? []), ...(filter.tag ? [filter.tag] : [])])];
     const note: Note = {
       id: crypto.randomUUID(),
-      title: "New Note",
-      content: "",
-      tags: [],
+      title: options.title ?? "New Note",
+      content: options.content ?? "",
+      tags,
+      notebookId,
+      pinned: false,
+      archived: false,
+      journalDate: options.journalDate,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
 
     setNotes(prev => [note, ...prev]);
+    if (filter.scope !== "all") updateFilter({ scope: "all" });
     setSelectedNote(note);
     setIsEditing(true);
     setNewTitle(note.title);
     setNewContent(note.content);
-    setNewTags("");
+    setNewTags(note.tags.join(", "));
+    setNewNotebookId(note.notebookId ?? "");
+    setInitialCursor(options.cursor ?? null);
+  };
+
+  const createFromTemplate = (template: NoteTemplate) => {
+    createNote(applyTemplate(template, new Date()));
+  };
+
+  const saveAsTemplate = (note: Note) => {
+    const template: NoteTemplate = {
+      id: crypto.randomUUID(),
+      name: note.title,
+      title: note.title,
+      content: note.content,
+      tags: note.tags,
+    };
+    setTemplates(prev => [...prev, template]);
+    toast({
+      title: "Template Saved",
+      description: `"${note.title}" is now available under New from template.`,
+    });
+  };
+
+  // Open the day's journal note, creating it from the journal template
+  const openJournal = (date: string = todayString()) => {
+    const existing = notes.find(note => note.journalDate === date);
+    if (existing) {
+      if (existing.archived && filter.scope !== "archived") updateFilter({ scope: "archived" });
+      setSelectedNote(existing);
+      setIsEditing(false);
+      return;
+    }
+
+    const template =
+      [...templates, ...BUILT_IN_TEMPLATES].find(t => t.id === (journalSettings.templateId ?? JOURNAL_TEMPLATE_ID)) ??
+      BUILT_IN_TEMPLATES[0];
+    const notebookId = notebooks.some(notebook => notebook.id === journalSettings.notebookId)
+      ? journalSettings.notebookId
+      : undefined;
+    createNote({ ...applyTemplate(template, journalMoment(date)), notebookId, journalDate: date });
+  };
+
+  // Changes that aren't edits to the note itself, so updatedAt is left alone
+  const updateNote = (id: string, changes: Partial<Note>) => {
+    setNotes(prev => prev.map(note => (note.id === id ? { ...note, ...changes } : note)));
+    setSelectedNote(prev => (prev?.id === id ? { ...prev, ...changes } : prev));
+  };
+
+  // Revisions are plain text, so encrypted notes, and notes filed where
+  // they will be encrypted, don't keep any
+  const keepsRevisions = (note: Note) => !note.encryption && !getEncryptedNotebook(notebooks, note.notebookId);
+
+  const moveNote = (noteId: string, notebookId: string | undefined) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note || note.notebookId === notebookId) return;
+    if (!vault.canStoreIn(notebookId)) {
+      notifyNotebookLocked();
+      return;
+    }
+
+    updateNote(noteId, { notebookId });
+    if (!keepsRevisions({ ...note, notebookId })) {
+      setRevisions(prev => prev.filter(revision => revision.noteId !== noteId));
+    }
+    const notebook = notebooks.find(n => n.id === notebookId);
+    toast({
+      title: "Note Moved",
+      description: notebook ? `"${note.title}" moved to ${notebook.name}.` : `"${note.title}" is no longer in a notebook.`,
+    });
+  };
+
+  // Notes moved under an encrypted notebook are encrypted with its key
+  const moveNotebook = async (notebookId: string, parentId: string | undefined) => {
+    if (!vault.canStoreIn(parentId)) {
+      notifyNotebookLocked();
+      return;
+    }
+
+    const moved = notebooks.map(notebook => (notebook.id === notebookId ? { ...notebook, parentId } : notebook));
+    setNotebooks(moved);
+    const encryption = getEncryptedNotebook(moved, notebookId)?.encryption;
+    const key = encryption && vault.keys.get(encryption.salt);
+    if (!encryption || !key) return;
+
+    const subtree = getNotebookSubtree(notebooks, notebookId);
+    const ids = notes
+      .filter(note => note.notebookId && subtree.has(note.notebookId) && !note.encryption)
+      .map(note => note.id);
+    if (ids.length === 0) return;
+
+    await vault.encryptNotes(ids, key, encryption);
+    setRevisions(prev => prev.filter(revision => !ids.includes(revision.noteId)));
+    toast({
+      title: "Encrypted",
+      description: `${ids.length} moved note(s) are now encrypted.`,
+    });
+  };
+
+  const toggleArchived = (note: Note) => {
+    updateNote(note.id, { archived: !note.archived, pinned: false });
+    toast({
+      title: note.archived ? "Note Restored" : "Note Archived",
+      description: note.archived
+        ? `"${note.title}" is back with your notes.`
+        : `"${note.title}" is hidden from your notes but kept under Archived.`,
+    });
+  };
+
+  // Notes and notebooks inside a deleted notebook move up to its parent
+  const deleteNotebook = (notebook: Notebook) => {
+    setNotebooks(prev =>
+      prev
+        .filter(n => n.id !== notebook.id)
+        .map(n => (n.parentId === notebook.id ? { ...n, parentId: notebook.parentId } : n))
+    );
+    setNotes(prev => prev.map(note => (note.notebookId === notebook.id ? { ...note, notebookId: notebook.parentId } : note)));
+    setSelectedNote(prev => (prev?.notebookId === notebook.id ? { ...prev, notebookId: notebook.parentId } : prev));
+    if (filter.notebookId === notebook.id) updateFilter({ notebookId: notebook.parentId ?? null });
+
+    toast({
+      title: "Notebook Deleted",
+      description: `"${notebook.name}" has been deleted. Its notes were kept.`,
+    });
   };
 
   const saveNote = () => {
     if (!selectedNote) return;
+    if (!vault.canStoreIn(newNotebookId || undefined)) {
+      notifyNotebookLocked();
+      return;
+    }
+
+    const title = newTitle || "Untitled";
+    // Links are matched by title, so two notes can't share one
+    if (
+      title !== selectedNote.title &&
+      notes.some(note => note.id !== selectedNote.id && normalizeTitle(note.title) === normalizeTitle(title))
+    ) {
+      toast({
+        title: "Title Already Used",
+        description: `Another note is already called "${title}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    // Links follow a rename, unless another note still has the old title
+    const renamed =
+      title !== selectedNote.title &&
+      !notes.some(note => note.id !== selectedNote.id && normalizeTitle(note.title) === normalizeTitle(selectedNote.title));
+    const relink = (content: string) => (renamed ? renameWikiLinks(content, selectedNote.title, title) : content);
 
     const updatedNote = {
       ...selectedNote,
-      title: newTitle || "Untitled",
-      content: newContent,
-      tags: newTags ? newTags.split(",").map(tag => tag.trim()).filter(Boolean) : [],
-      updatedAt: new Date().toISOString(),
+      title,
+      content: relink(newContent),
+      tags: parseTags(newTags),
+      notebookId: newNotebookId || undefined,
+      updatedAt: now,
     };
+    // The other notes whose links the rename rewrites, before and after
+    const relinked = renamed
+      ? notes.flatMap(note => {
+          const content = relink(note.content);
+          return note.id === selectedNote.id || content === note.content
+            ? []
+            : [{ previous: note, saved: { ...note, content, updatedAt: now } }];
+        })
+      : [];
+    const relinkedById = new Map(relinked.map(({ saved }) => [saved.id, saved]));
+    // Locked notes can't be read, so their links keep the old title
+    const skipped = renamed ? notes.filter(note => note.id !== selectedNote.id && vault.isLocked(note)).length : 0;
 
-    setNotes(prev => prev.map(note => 
-      note.id === selectedNote.id ? updatedNote : note
-    ));
+    setNotes(prev => prev.map(note => (note.id === selectedNote.id ? updatedNote : relinkedById.get(note.id) ?? note)));
     
+    // Relinked notes get a revision too, so the rewrite can be undone. A note
+    // filed into an encrypted notebook loses the ones it had.
+    setRevisions(prev =>
+      [{ previous: selectedNote, saved: updatedNote }, ...relinked]
+        .filter(({ saved }) => keepsRevisions(saved))
+        .reduce(
+          (revisions, { previous, saved }) => recordRevision(revisions, previous, saved, historySettings),
+          keepsRevisions(updatedNote) ? prev : prev.filter(revision => revision.noteId !== updatedNote.id)
+        )
+    );
     setSelectedNote(updatedNote);
     setIsEditing(false);
     
+    const relinkedText =
+      relinked.length > 0
+        ? `Links in ${relinked.length} other note(s) now point to "${title}".`
+        : "Your note has been saved successfully.";
     toast({
       title: "Note Saved",
-      description: "Your note has been saved successfully.",
+      description:
+        skipped > 0
+          ? `${relinkedText} ${skipped} locked note(s) were skipped and still link to "${selectedNote.title}".`
+          : relinkedText,
+    });
+  };
+
+  // Bring back an old revision; the restore is itself recorded as a revision
+  const restoreRevision = (note: Note, revision: NoteRevision) => {
+    if (!keepsRevisions(note)) return;
+    const restoredNote = {
+      ...note,
+      title: revision.title,
+      content: revision.content,
+      tags: revision.tags,
+      updatedAt: new Date().toISOString(),
+    };
+
+    setNotes(prev => prev.map(n => (n.id === note.id ? restoredNote : n)));
+    setRevisions(prev => recordRevision(prev, note, restoredNote, historySettings, revision.savedAt));
+    setSelectedNote(restoredNote);
+    setIsEditing(false);
+
+    toast({
+      title: "Revision Restored",
+      description: `"${restoredNote.title}" is back to how it was on ${new Date(revision.savedAt).toLocaleString()}.`,
     });
   };
 
+  const updateHistorySettings = (settings: NoteHistorySettings) => {
+    setHistorySettings(settings);
+    setRevisions(prev => applyRetention(prev, settings));
+  };
+
+  // Follow a [[wiki link]], offering to create the note if it doesn't exist
+  const openWikiLink = (title: string) => {
+    const note = findNoteByTitle(notes, title);
+    if (note) {
+      setSelectedNote(note);
+      setIsEditing(false);
+    } else {
+      setMissingLinkTitle(title);
+    }
+  };
+
   const deleteNote = (noteToDelete: Note) => {
     setNotes(prev => prev.filter(note => note.id !== noteToDelete.id));
+    setRevisions(prev => prev.filter(revision => revision.noteId !== noteToDelete.id));
+    // Attachments go with the note unless another note links them too.
+    // Locked notes' links can't be read, so while any are locked they're kept.
+    const otherNotes = notes.filter(note => note.id !== noteToDelete.id);
+    const mightBeLinked = otherNotes.some(note => vault.isLocked(note));
+    const linkedElsewhere = new Set(otherNotes.flatMap(note => [...findAttachmentIds(note.content)]));
+    setAttachments(prev =>
+      prev.filter(
+        attachment => attachment.noteId !== noteToDelete.id || mightBeLinked || linkedElsewhere.has(attachment.id)
+      )
+    );
     
     if (selectedNote?.id === noteToDelete.id) {
       const remainingNotes = notes.filter(note => note.id !== noteToDelete.id);
@@ -99,25 +491,145 @@ export default function Notes() {
     });
   };
 
+  // Stores files dropped, pasted or picked in the editor and returns the
+  // Markdown links to insert for them
+  const addAttachments = (note: Note, files: File[]) => {
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "File Too Large",
+        description: `${tooLarge.map(file => file.name).join(", ")} exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit.`,
+        variant: "destructive",
+      });
+    }
+
+    const created = files.filter(file => file.size <= MAX_ATTACHMENT_SIZE).map(file => createAttachment(note.id, file));
+    if (created.length > 0) attachmentVault.addAttachments(created);
+    return created.map(attachmentMarkdown);
+  };
+
+  const deleteAttachments = (ids: string[]) => {
+    setAttachments(prev => prev.filter(attachment => !ids.includes(attachment.id)));
+    toast({
+      title: "Attachments Deleted",
+      description: `${ids.length} attachment(s) removed.`,
+    });
+  };
+
+  // Exports take notes as stored, so encrypted ones stay encrypted
+  const storedNoteById = new Map(storedNotes.map(note => [note.id, note]));
+
+  const exportNote = async (note: Note, exporter: (note: Note, attachments: NoteAttachment[]) => Promise<ExportedFile>) => {
+    try {
+      downloadFile(await exporter(storedNoteById.get(note.id) ?? note, readableAttachments));
+    } catch {
+      toast({
+        title: "Export Failed",
+        description: `"${note.title}" could not be exported.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Imported notes land in the notebook being viewed, if any and unlocked
+  const importNotes = (imported: ImportedNotes) => {
+    const notebookId = vault.canStoreIn(filter.notebookId) ? filter.notebookId ?? undefined : undefined;
+    setNotes(prev => [...imported.notes.map(note => ({ ...note, notebookId })), ...prev]);
+    attachmentVault.addAttachments(imported.attachments);
+  };
+
+  const encryptionNote = encryptionTarget?.kind === "note" ? notes.find(note => note.id === encryptionTarget.id) : undefined;
+  const encryptionNotebook =
+    encryptionTarget?.kind === "notebook" ? notebooks.find(notebook => notebook.id === encryptionTarget.id) : undefined;
+  const encryptedData = encryptionNote?.encryption ?? encryptionNotebook?.encryption;
+  const coveringNotebook = encryptionNote && getEncryptedNotebook(notebooks, encryptionNote.notebookId);
+
+  const encryptTarget = async (passphrase: string) => {
+    if (!encryptionTarget) return;
+    const params = newKeyParams();
+    const key = await deriveKey(passphrase, params);
+
+    let ids = [encryptionTarget.id];
+    if (encryptionTarget.kind === "notebook") {
+      const encryption = await createNotebookCheck(key, params);
+      setNotebooks(prev => prev.map(notebook => (notebook.id === encryptionTarget.id ? { ...notebook, encryption } : notebook)));
+      const subtree = getNotebookSubtree(notebooks, encryptionTarget.id);
+      ids = notes.filter(note => note.notebookId && subtree.has(note.notebookId)).map(note => note.id);
+    }
+
+    await vault.encryptNotes(ids, key, params);
+    setRevisions(prev => prev.filter(revision => !ids.includes(revision.noteId)));
+    toast({
+      title: "Encrypted",
+      description:
+        encryptionTarget.kind === "notebook"
+          ? `${ids.length} note(s) in "${encryptionNotebook?.name}" are now encrypted.`
+          : `"${encryptionNote?.title}" is now encrypted.`,
+    });
+  };
+
+  const removeEncryption = async () => {
+    if (!encryptionTarget || !encryptedData) return;
+    if (encryptionTarget.kind === "notebook") {
+      setNotebooks(prev =>
+        prev.map(notebook => (notebook.id === encryptionTarget.id ? { ...notebook, encryption: undefined } : notebook))
+      );
+    }
+    // A notebook's notes all share its salt
+    const ids =
+      encryptionTarget.kind === "note"
+        ? [encryptionTarget.id]
+        : notes.filter(note => note.encryption?.salt === encryptedData.salt).map(note => note.id);
+    await vault.decryptNotes(ids);
+    setEncryptionTarget(null);
+    toast({
+      title: "Encryption Removed",
+      description: "Stored as plain text again.",
+    });
+  };
+
+  const unlockSelected = (passphrase: string) =>
+    selectedNote?.encryption ? vault.unlock(selectedNote.encryption, passphrase) : Promise.resolve(false);
+
+  const lockNotes = () => {
+    vault.lock();
+    toast({
+      title: "Notes Locked",
+      description: "Encrypted notes need their passphrase again.",
+    });
+  };
+
+  // Ticking a task checkbox in the rendered note updates its source
+  const toggleNoteTask = (note: Note, index: number) => {
+    const updatedNote = { ...note, content: toggleTaskItem(note.content, index), updatedAt: new Date().toISOString() };
+    setNotes(prev => prev.map(n => (n.id === note.id ? updatedNote : n)));
+    if (keepsRevisions(updatedNote)) {
+      setRevisions(prev => recordRevision(prev, note, updatedNote, historySettings));
+    }
+    setSelectedNote(updatedNote);
+  };
+
   const startEditing = (note: Note) => {
     setSelectedNote(note);
     setNewTitle(note.title);
     setNewContent(note.content);
     setNewTags(note.tags.join(", "));
+    setNewNotebookId(note.notebookId ?? "");
     setIsEditing(true);
   };
 
-  const filteredNotes = notes.filter(note => {
-    const query = searchQuery.toLowerCase();
-    return (
-      note.title.toLowerCase().includes(query) ||
-      note.content.toLowerCase().includes(query) ||
-      note.tags.some(tag => tag.toLowerCase().includes(query))
-    );
-  });
+  const backlinks = selectedNote ? getBacklinks(notes, selectedNote) : [];
+
+  const journalDates = notes.flatMap(note => (note.journalDate ? [note.journalDate] : []));
+
+  const filteredNotes = searchResults
+    ? rankNotes(filterNotes(notes, notebooks, filter), searchResults)
+    : sortNotes(filterNotes(notes, notebooks, filter));
+  const filterNotebook = notebooks.find(notebook => notebook.id === filter.notebookId);
+  const isFiltered = !!filter.search || !!filter.notebookId || !!filter.tag;
 
   return (
-    <div className="max-w-6xl mx-auto space-y-6">
+    <div className="max-w-7xl mx-auto space-y-6">
       <div className="text-center space-y-2">
         <div className="flex items-center justify-center gap-2 text-3xl font-bold">
           <StickyNote className="h-8 w-8 text-primary" />
@@ -126,36 +638,147 @@ export default function Notes() {
         <p className="text-muted-foreground">Capture your thoughts and ideas</p>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[600px]">
+      <div className="grid grid-cols-1 lg:grid-cols-[15rem_1fr_2fr] gap-6 lg:h-[700px]">
+        {/* Scopes, notebooks and tags */}
+        <Card className="overflow-y-auto">
+          <CardContent className="p-4">
+            <NoteSidebar
+              notes={notes}
+              notebooks={notebooks}
+              filter={filter}
+              onFilterChange={updateFilter}
+              onNotebooksChange={setNotebooks}
+              onDeleteNotebook={deleteNotebook}
+              onMoveNote={moveNote}
+              onMoveNotebook={moveNotebook}
+              onEncryptNotebook={(notebook) => setEncryptionTarget({ kind: "notebook", id: notebook.id })}
+            />
+          </CardContent>
+        </Card>
+
         {/* Notes List */}
-        <Card className="lg:col-span-1 flex flex-col">
+        <Card className="flex flex-col min-h-0">
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
-              <CardTitle className="text-lg">All Notes</CardTitle>
-              <Button size="sm" onClick={createNote}>
-                <Plus className="h-4 w-4 mr-1" />
-                New
-              </Button>
+              <CardTitle className="text-lg">{SCOPE_TITLES[filter.scope]}</CardTitle>
+              <div className="flex">
+                {vault.hasUnlocked && (
+                  <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={lockNotes} title="Lock encrypted notes now">
+                    <Lock className="h-4 w-4" />
+                  </Button>
+                )}
+                <NoteImportExportDialog
+                  notes={filteredNotes.map(note => storedNoteById.get(note.id) ?? note)}
+                  attachments={readableAttachments}
+                  onImport={importNotes}
+                />
+                <NoteStorageDialog
+                  notes={notes}
+                  revisions={revisions}
+                  attachments={attachments}
+                  otherSources={templates}
+                  onDeleteAttachments={deleteAttachments}
+                  onOpenNote={(note) => {
+                    setSelectedNote(note);
+                    setIsEditing(false);
+                  }}
+                />
+                <Button size="sm" variant="outline" className="mr-2" onClick={() => openJournal()} title="Today's journal">
+                  <CalendarDays className="h-4 w-4" />
+                </Button>
+                <Button size="sm" className="rounded-r-none" onClick={() => createNote()}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  New
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" className="rounded-l-none border-l border-primary-foreground/20 px-2" title="New from template">
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>New from template</DropdownMenuLabel>
+                    {[...templates, ...BUILT_IN_TEMPLATES].map(template => (
+                      <DropdownMenuItem key={template.id} onSelect={() => createFromTemplate(template)}>
+                        <FileText className="h-4 w-4 mr-2" />
+                        {template.name}
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => openJournal()}>
+                      <CalendarDays className="h-4 w-4 mr-2" />
+                      Today's journal
+                    </DropdownMenuItem>
+                    {selectedNote && !isEditing && (
+                      <DropdownMenuItem onSelect={() => saveAsTemplate(selectedNote)}>
+                        <Save className="h-4 w-4 mr-2" />
+                        Save this note as a template
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onSelect={() => setTemplatesOpen(true)}>
+                      <LayoutTemplate className="h-4 w-4 mr-2" />
+                      Manage templates...
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
             </div>
+            <JournalStrip
+              journalDates={journalDates}
+              selectedDate={selectedNote?.journalDate ?? null}
+              onOpen={openJournal}
+            />
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
                 placeholder="Search notes..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={filter.search}
+                onChange={(e) => updateFilter({ search: e.target.value })}
                 className="pl-9"
               />
             </div>
+            {(filterNotebook || filter.tag) && (
+              <div className="flex flex-wrap gap-2">
+                {filterNotebook && (
+                  <Badge variant="secondary" className="gap-1">
+                    <FolderClosed className="h-3 w-3" />
+                    {filterNotebook.name}
+                    <button onClick={() => updateFilter({ notebookId: null })} title="Clear notebook filter">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                )}
+                {filter.tag && (
+                  <Badge variant="secondary" className="gap-1">
+                    <Hash className="h-3 w-3" />
+                    {filter.tag}
+                    <button onClick={() => updateFilter({ tag: null })} title="Clear tag filter">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                )}
+              </div>
+            )}
           </CardHeader>
           <CardContent className="flex-1 overflow-y-auto space-y-2">
             {filteredNotes.length === 0 ? (
               <div className="text-center text-muted-foreground py-8">
-                {searchQuery ? "No notes match your search." : "No notes yet. Create your first note!"}
+                {isFiltered
+                  ? "No notes match your filters."
+                  : filter.scope === "all"
+                    ? "No notes yet. Create your first note!"
+                    : `No ${filter.scope} notes.`}
               </div>
             ) : (
               filteredNotes.map((note) => (
                 <div
                   key={note.id}
+                  id={focusItemDomId(note.id)}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id);
+                  }}
                   className={`p-3 rounded-lg border cursor-pointer transition-colors ${
                     selectedNote?.id === note.id 
                       ? "border-primary bg-primary/5" 
@@ -165,9 +788,25 @@ export default function Notes() {
                 >
                   <div className="flex items-start justify-between">
                     <div className="flex-1 min-w-0">
-                      <h4 className="font-medium truncate">{note.title}</h4>
+                      <h4 className="flex items-center gap-1 font-medium">
+                        {note.pinned && <Pin className="h-3 w-3 shrink-0 text-primary" />}
+                        {note.encryption && <Lock className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                        <span className="truncate">
+                          {searchResults ? (
+                            <HighlightedText segments={highlightText(note.title, searchResults.matches)} />
+                          ) : (
+                            note.title
+                          )}
+                        </span>
+                      </h4>
                       <p className="text-xs text-muted-foreground line-clamp-2 mt-1">
-                        {note.content || "No content"}
+                        {vault.isLocked(note) ? (
+                          "Locked"
+                        ) : searchResults && note.content ? (
+                          <HighlightedText segments={getSnippet(note.content, searchResults.matches)} />
+                        ) : (
+                          stripMarkdown(note.content) || "No content"
+                        )}
                       </p>
                       <div className="flex items-center gap-2 mt-2">
                         {note.tags.slice(0, 2).map((tag) => (
@@ -204,7 +843,7 @@ export default function Notes() {
         </Card>
 
         {/* Note Editor */}
-        <Card className="lg:col-span-2 flex flex-col">
+        <Card className="flex flex-col min-h-0">
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
               <CardTitle className="text-lg">
@@ -223,16 +862,78 @@ export default function Notes() {
                       </Button>
                     </>
                   ) : (
-                    <Button size="sm" onClick={() => startEditing(selectedNote)}>
-                      <Edit3 className="h-4 w-4 mr-1" />
-                      Edit
-                    </Button>
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateNote(selectedNote.id, { pinned: !selectedNote.pinned })}
+                        disabled={selectedNote.archived}
+                        title={selectedNote.pinned ? "Unpin" : "Pin to the top"}
+                      >
+                        {selectedNote.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => toggleArchived(selectedNote)}
+                        title={selectedNote.archived ? "Restore from archive" : "Archive"}
+                      >
+                        {selectedNote.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button size="sm" variant="outline" title="Export">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Export note</DropdownMenuLabel>
+                          <DropdownMenuItem onSelect={() => exportNote(selectedNote, exportNoteMarkdown)}>
+                            Markdown (.md)
+                          </DropdownMenuItem>
+                          {/* Only Markdown can carry the note still encrypted */}
+                          <DropdownMenuItem
+                            disabled={!!selectedNote.encryption}
+                            onSelect={() => exportNote(selectedNote, exportNoteHtml)}
+                          >
+                            Web page (.html)
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            disabled={!!selectedNote.encryption}
+                            onSelect={() => exportNote(selectedNote, exportNotePdf)}
+                          >
+                            PDF
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <Button
+                        size="sm"
+                        variant={selectedNote.encryption ? "secondary" : "outline"}
+                        onClick={() => setEncryptionTarget({ kind: "note", id: selectedNote.id })}
+                        title={selectedNote.encryption ? "Encrypted" : "Encrypt"}
+                      >
+                        <Lock className="h-4 w-4" />
+                      </Button>
+                      {keepsRevisions(selectedNote) && (
+                        <NoteHistorySheet
+                          note={selectedNote}
+                          revisions={getNoteRevisions(revisions, selectedNote.id)}
+                          settings={historySettings}
+                          onSettingsChange={updateHistorySettings}
+                          onRestore={(revision) => restoreRevision(selectedNote, revision)}
+                        />
+                      )}
+                      <Button size="sm" onClick={() => startEditing(selectedNote)} disabled={selectedLocked}>
+                        <Edit3 className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                    </>
                   )}
                 </div>
               )}
             </div>
           </CardHeader>
-          <CardContent className="flex-1 flex flex-col">
+          <CardContent className="flex-1 flex flex-col min-h-0 overflow-y-auto">
             {!selectedNote ? (
               <div className="flex-1 flex items-center justify-center text-muted-foreground">
                 Select a note to view or create a new one
@@ -244,21 +945,45 @@ export default function Notes() {
                   value={newTitle}
                   onChange={(e) => setNewTitle(e.target.value)}
                 />
-                <Input
-                  placeholder="Tags (comma separated)..."
-                  value={newTags}
-                  onChange={(e) => setNewTags(e.target.value)}
-                />
-                <Textarea
-                  placeholder="Write your note content here..."
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <select
+                    value={newNotebookId}
+                    onChange={(e) => setNewNotebookId(e.target.value)}
+                    className="input-field sm:w-56"
+                  >
+                    <option value="">No notebook</option>
+                    {notebookOptions.map(({ notebook, depth }) => (
+                      <option key={notebook.id} value={notebook.id}>
+                        {"\u00a0\u00a0".repeat(depth)}{notebook.name}
+                      </option>
+                    ))}
+                  </select>
+                  <Input
+                    placeholder="Tags (comma separated, nest with /: work/clients)..."
+                    value={newTags}
+                    onChange={(e) => setNewTags(e.target.value)}
+                  />
+                </div>
+                <MarkdownEditor
+                  key={selectedNote.id}
+                  initialCursor={initialCursor}
+                  placeholder="Write your note in Markdown... Link other notes with [[Note Title]]"
                   value={newContent}
-                  onChange={(e) => setNewContent(e.target.value)}
-                  className="flex-1 min-h-[300px] resize-none"
+                  onChange={setNewContent}
+                  noteTitles={noteTitles}
+                  attachments={readableAttachments}
+                  onAddFiles={(files) => addAttachments(selectedNote, files)}
                 />
               </div>
             ) : (
               <div className="space-y-4 flex-1">
                 <div>
+                  {selectedNote.notebookId && (
+                    <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <FolderClosed className="h-3 w-3" />
+                      {getNotebookPath(notebooks, selectedNote.notebookId).map(notebook => notebook.name).join(" / ")}
+                    </p>
+                  )}
                   <h2 className="text-2xl font-bold">{selectedNote.title}</h2>
                   <p className="text-sm text-muted-foreground">
                     Created: {new Date(selectedNote.createdAt).toLocaleDateString()} • 
@@ -277,19 +1002,103 @@ export default function Notes() {
                 )}
                 
                 <div className="flex-1">
-                  <div className="whitespace-pre-wrap text-sm leading-relaxed">
-                    {selectedNote.content || (
-                      <span className="text-muted-foreground italic">
-                        This note is empty. Click Edit to add content.
-                      </span>
-                    )}
-                  </div>
+                  {selectedLocked && selectedNote.encryption ? (
+                    <div className="max-w-sm space-y-3 rounded-lg border p-4">
+                      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Lock className="h-4 w-4" />
+                        This note is encrypted. Enter its passphrase to read it.
+                      </p>
+                      <NoteUnlockForm onUnlock={unlockSelected} />
+                    </div>
+                  ) : selectedNote.content ? (
+                    <MarkdownPreview
+                      content={selectedNote.content}
+                      onToggleTask={(index) => toggleNoteTask(selectedNote, index)}
+                      noteTitles={noteTitles}
+                      onOpenLink={openWikiLink}
+                      attachments={readableAttachments}
+                    />
+                  ) : (
+                    <span className="text-sm text-muted-foreground italic">
+                      This note is empty. Click Edit to add content.
+                    </span>
+                  )}
+                </div>
+
+                <div className="border-t pt-4 space-y-2">
+                  <h3 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+                    <Link2 className="h-4 w-4" />
+                    Backlinks
+                    <Badge variant="secondary">{backlinks.length}</Badge>
+                  </h3>
+                  {backlinks.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No other notes link here yet.</p>
+                  ) : (
+                    backlinks.map((note) => (
+                      <button
+                        key={note.id}
+                        type="button"
+                        onClick={() => setSelectedNote(note)}
+                        className="block w-full rounded-lg border p-3 text-left hover:bg-muted/50"
+                      >
+                        <span className="font-medium">{note.title}</span>
+                        <span className="block text-xs text-muted-foreground truncate mt-1">
+                          {stripMarkdown(getLinkContext(note.content, selectedNote.title))}
+                        </span>
+                      </button>
+                    ))
+                  )}
                 </div>
               </div>
             )}
           </CardContent>
         </Card>
       </div>
+
+      <NoteEncryptionDialog
+        open={!!encryptionNote || !!encryptionNotebook}
+        onOpenChange={(open) => !open && setEncryptionTarget(null)}
+        kind={encryptionTarget?.kind ?? "note"}
+        name={encryptionNote?.title ?? encryptionNotebook?.name ?? ""}
+        encrypted={!!encryptedData}
+        locked={!!encryptedData && !vault.hasKey(encryptedData.salt)}
+        inheritedFrom={
+          coveringNotebook && coveringNotebook.encryption?.salt === encryptedData?.salt ? coveringNotebook.name : undefined
+        }
+        autoLockMinutes={lockSettings.autoLockMinutes}
+        onAutoLockMinutesChange={(autoLockMinutes) => setLockSettings({ autoLockMinutes })}
+        onEncrypt={encryptTarget}
+        onUnlock={(passphrase) => (encryptedData ? vault.unlock(encryptedData, passphrase) : Promise.resolve(false))}
+        onRemoveEncryption={removeEncryption}
+        onLock={lockNotes}
+      />
+
+      <NoteTemplatesDialog
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        templates={templates}
+        onTemplatesChange={setTemplates}
+        journalSettings={journalSettings}
+        onJournalSettingsChange={setJournalSettings}
+        notebooks={notebooks}
+      />
+
+      <AlertDialog open={missingLinkTitle !== null} onOpenChange={(open) => !open && setMissingLinkTitle(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Create "{missingLinkTitle}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No note has this title yet. Create it now and start writing?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => missingLinkTitle && createNote({ title: missingLinkTitle })}>
+              Create Note
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
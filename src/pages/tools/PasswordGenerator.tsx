@@ -7,13 +7,8 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Slider } from "@/components/ui/slider";
 import { useToast } from "@/hooks/use-toast";
-
-interface SavedPassword {
-  id: string;
-  label: string;
-  password: string;
-  createdAt: string;
-}
+import { useStoredState } from "@/hooks/use-stored-state";
+import { savedPasswordsStore, type SavedPassword } from "@/lib/stores";
 
 export default function PasswordGenerator() {
   const [password, setPassword] = useState("");
@@ -25,7 +20,7 @@ export default function PasswordGenerator() {
     symbols: false,
     excludeSimilar: false,
   });
-  const [savedPasswords, setSavedPasswords] = useState<SavedPassword[]>([]);
+  const [savedPasswords, setSavedPasswords] = useStoredState(savedPasswordsStore);
   const [newPasswordLabel, setNewPasswordLabel] = useState("");
   const [visiblePasswords, setVisiblePasswords] = useState<Set<string>>(new Set());
   const { toast } = useToast();
@@ -38,17 +33,6 @@ export default function PasswordGenerator() {
     similar: "il1Lo0O"
   };
 
-  useEffect(() => {
-    const saved = localStorage.getItem("productivity-saved-passwords");
-    if (saved) {
-      setSavedPasswords(JSON.parse(saved));
-    }
-  }, []);
-
-  useEffect(() => {
-    localStorage.setItem("productivity-saved-passwords", JSON.stringify(savedPasswords));
-  }, [savedPasswords]);
-
   useEffect(() => {
     generatePassword();
   }, [length, options]);
@@ -3,16 +3,16 @@ import { FileImage, Upload, Download, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useStoredState } from "@/hooks/use-stored-state";
+import { pdfToImageResultsStore, type ExtractedImage } from "@/lib/stores";
 import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 
-interface ExtractedImage {
-  id: string;
-  dataUrl: string;
-  pageNumber: number;
-}
+// Use the worker bundled with the installed pdfjs-dist so versions always match
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
 
 export default function PdfToImage() {
-  const [extractedImages, setExtractedImages] = useState<ExtractedImage[]>([]);
+  const [extractedImages, setExtractedImages] = useStoredState(pdfToImageResultsStore);
   const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -30,9 +30,6 @@ export default function PdfToImage() {
 
     setIsProcessing(true);
     try {
-      // Set worker source for PDF.js
-      pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/4.8.69/pdf.worker.min.js`;
-      
       const arrayBuffer = await file.arrayBuffer();
       const loadingTask = pdfjsLib.getDocument(arrayBuffer);
       const pdf = await loadingTask.promise;
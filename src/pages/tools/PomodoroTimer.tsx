@@ -5,13 +5,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useStoredState } from "@/hooks/use-stored-state";
+import { pomodoroSettingsStore } from "@/lib/stores";
 
 type TimerMode = "work" | "shortBreak" | "longBreak";
 
 export default function PomodoroTimer() {
-  const [workDuration, setWorkDuration] = useState(25);
-  const [shortBreakDuration, setShortBreakDuration] = useState(5);
-  const [longBreakDuration, setLongBreakDuration] = useState(15);
+  const [settings, setSettings] = useStoredState(pomodoroSettingsStore);
+  const { workDuration, shortBreakDuration, longBreakDuration } = settings;
   const [currentMode, setCurrentMode] = useState<TimerMode>("work");
   const [timeLeft, setTimeLeft] = useState(workDuration * 60);
   const [isRunning, setIsRunning] = useState(false);
@@ -20,6 +21,10 @@ export default function PomodoroTimer() {
   const { toast } = useToast();
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  const setWorkDuration = (minutes: number) => setSettings(prev => ({ ...prev, workDuration: minutes }));
+  const setShortBreakDuration = (minutes: number) => setSettings(prev => ({ ...prev, shortBreakDuration: minutes }));
+  const setLongBreakDuration = (minutes: number) => setSettings(prev => ({ ...prev, longBreakDuration: minutes }));
+
   const getDuration = (mode: TimerMode) => {
     switch (mode) {
       case "work": return workDuration;
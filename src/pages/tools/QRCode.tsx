@@ -1,4 +1,5 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef } from "react";
+import QRCode from "qrcode";
 import { QrCode, Download, Upload, Camera, Link, Type, Mail, Phone, Wifi } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,18 +9,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 
-declare global {
-  interface Window {
-    QRCode: any;
-  }
-}
-
 export default function QRCodeTool() {
   const [qrText, setQrText] = useState("");
   const [qrDataURL, setQrDataURL] = useState("");
   const [activeTab, setActiveTab] = useState("text");
   const [isLoading, setIsLoading] = useState(false);
-  const [qrLoaded, setQrLoaded] = useState(false);
   const qrRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { toast } = useToast();
@@ -30,34 +24,15 @@ export default function QRCodeTool() {
   const [phoneData, setPhoneData] = useState("");
   const [wifiData, setWifiData] = useState({ ssid: "", password: "", security: "WPA" });
 
-  // Load QR code library
-  useEffect(() => {
-    if (!window.QRCode) {
-      const script = document.createElement('script');
-      script.src = 'https://cdn.jsdelivr.net/npm/qrcode@1.5.3/build/qrcode.min.js';
-      script.onload = () => setQrLoaded(true);
-      script.onerror = () => {
-        toast({
-          title: "Error",
-          description: "Failed to load QR code library",
-          variant: "destructive",
-        });
-      };
-      document.head.appendChild(script);
-    } else {
-      setQrLoaded(true);
-    }
-  }, [toast]);
-
   const generateQRCode = async (text: string) => {
-    if (!text.trim() || !qrLoaded || !window.QRCode) return;
+    if (!text.trim()) return;
     
     setIsLoading(true);
     
     try {
       const canvas = canvasRef.current;
       if (canvas) {
-        await window.QRCode.toCanvas(canvas, text, {
+        await QRCode.toCanvas(canvas, text, {
           width: 256,
           margin: 2,
           color: {
@@ -192,7 +167,7 @@ export default function QRCodeTool() {
                 <Button 
                   onClick={() => generateQRCode(qrText)} 
                   className="w-full"
-                  disabled={!qrText.trim() || isLoading || !qrLoaded}
+                  disabled={!qrText.trim() || isLoading}
                 >
                   {isLoading ? "Generating..." : "Generate QR Code"}
                 </Button>
@@ -212,7 +187,7 @@ export default function QRCodeTool() {
                 <Button 
                   onClick={() => generateQRCode(urlData)} 
                   className="w-full"
-                  disabled={!urlData.trim() || isLoading || !qrLoaded}
+                  disabled={!urlData.trim() || isLoading}
                 >
                   {isLoading ? "Generating..." : "Generate QR Code"}
                 </Button>
@@ -255,7 +230,7 @@ export default function QRCodeTool() {
                     generateQRCode(emailText);
                   }}
                   className="w-full"
-                  disabled={!emailData.email.trim() || isLoading || !qrLoaded}
+                  disabled={!emailData.email.trim() || isLoading}
                 >
                   {isLoading ? "Generating..." : "Generate QR Code"}
                 </Button>
@@ -275,7 +250,7 @@ export default function QRCodeTool() {
                 <Button 
                   onClick={() => generateQRCode(`tel:${phoneData}`)} 
                   className="w-full"
-                  disabled={!phoneData.trim() || isLoading || !qrLoaded}
+                  disabled={!phoneData.trim() || isLoading}
                 >
                   {isLoading ? "Generating..." : "Generate QR Code"}
                 </Button>
@@ -322,7 +297,7 @@ export default function QRCodeTool() {
                     generateQRCode(wifiText);
                   }}
                   className="w-full"
-                  disabled={!wifiData.ssid.trim() || isLoading || !qrLoaded}
+                  disabled={!wifiData.ssid.trim() || isLoading}
                 >
                   {isLoading ? "Generating..." : "Generate QR Code"}
                 </Button>
@@ -361,7 +336,6 @@ export default function QRCodeTool() {
                 <div className="text-center text-muted-foreground">
                   <QrCode className="h-16 w-16 mx-auto mb-4 opacity-50" />
                   <p>Enter some content and generate a QR code</p>
-                  {!qrLoaded && <p className="text-xs mt-2">Loading QR library...</p>}
                 </div>
               )}
             </div>
@@ -1,92 +1,130 @@
-import { useState, useEffect } from "react";
-import { Bell, Plus, Trash2, Clock } from "lucide-react";
+import { useState } from "react";
+import { Bell, BellRing, Plus, Trash2, Clock, Repeat, AlarmClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RecurrencePicker } from "@/components/RecurrencePicker";
+import { QuickEntryInput } from "@/components/QuickEntryInput";
 import { useToast } from "@/hooks/use-toast";
-
-interface Reminder {
-  id: string;
-  title: string;
-  datetime: string;
-  completed: boolean;
-}
+import { focusItemDomId, useFocusItem } from "@/hooks/use-focus-item";
+import { useStoredState } from "@/hooks/use-stored-state";
+import { remindersStore, type RecurrenceRule, type Reminder } from "@/lib/stores";
+import { describeRecurrence, getNextOccurrence } from "@/lib/recurrence";
+import { toDateTime, type ParsedEntry } from "@/lib/quick-entry";
+import { completeReminder, snoozeReminder, SNOOZE_OPTIONS } from "@/lib/reminders";
+import { getNotificationPermission, requestNotificationPermission } from "@/lib/notifications";
 
 export default function Reminders() {
-  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [reminders, setReminders] = useStoredState(remindersStore);
   const [newTitle, setNewTitle] = useState("");
   const [newDatetime, setNewDatetime] = useState("");
+  const [newRecurrence, setNewRecurrence] = useState<RecurrenceRule | undefined>();
+  const [customSnoozeId, setCustomSnoozeId] = useState<string | null>(null);
+  const [customSnoozeMinutes, setCustomSnoozeMinutes] = useState("30");
   const { toast } = useToast();
+  const focusedId = useFocusItem(reminders.length);
+  const [notificationPermission, setNotificationPermission] = useState(getNotificationPermission);
 
-  // Load reminders from localStorage
-  useEffect(() => {
-    const saved = localStorage.getItem("productivity-reminders");
-    if (saved) {
-      setReminders(JSON.parse(saved));
-    }
-  }, []);
-
-  // Save reminders to localStorage
-  useEffect(() => {
-    localStorage.setItem("productivity-reminders", JSON.stringify(reminders));
-  }, [reminders]);
-
-  // Check for due reminders
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const now = new Date();
-      reminders.forEach((reminder) => {
-        if (!reminder.completed) {
-          const reminderTime = new Date(reminder.datetime);
-          const timeDiff = reminderTime.getTime() - now.getTime();
-          
-          if (timeDiff <= 0 && timeDiff > -60000) { // Within the last minute
-            toast({
-              title: "🔔 Reminder",
-              description: reminder.title,
-            });
-            
-            // Mark as completed
-            setReminders(prev => prev.map(r => 
-              r.id === reminder.id ? { ...r, completed: true } : r
-            ));
-          }
-        }
+  const enableNotifications = async () => {
+    const permission = await requestNotificationPermission();
+    setNotificationPermission(permission);
+    if (permission === "denied") {
+      toast({
+        title: "Notifications Blocked",
+        description: "Allow notifications for this site in your browser settings to get alerts in the background.",
+        variant: "destructive",
       });
-    }, 10000); // Check every 10 seconds
-
-    return () => clearInterval(interval);
-  }, [reminders, toast]);
-
-  const addReminder = () => {
-    if (!newTitle.trim() || !newDatetime) return;
+    }
+  };
 
+  const createReminder = (title: string, datetime: string, recurrence?: RecurrenceRule) => {
     const reminder: Reminder = {
       id: crypto.randomUUID(),
-      title: newTitle.trim(),
-      datetime: newDatetime,
+      title,
+      datetime,
       completed: false,
+      // The rule is measured from the first occurrence
+      recurrence: recurrence ? { ...recurrence, anchor: datetime } : undefined,
     };
+    // A recurring reminder starting in the past begins at its next occurrence
+    if (reminder.recurrence && new Date(datetime) <= new Date()) {
+      reminder.datetime = getNextOccurrence(reminder.recurrence, datetime);
+    }
 
     setReminders(prev => [...prev, reminder]);
-    setNewTitle("");
-    setNewDatetime("");
     
     toast({
       title: "Reminder Added",
-      description: `Reminder set for ${new Date(newDatetime).toLocaleString()}`,
+      description: reminder.recurrence
+        ? `${describeRecurrence(reminder.recurrence)}, next ${new Date(reminder.datetime).toLocaleString()}`
+        : `Reminder set for ${new Date(reminder.datetime).toLocaleString()}`,
     });
   };
 
+  const addReminder = () => {
+    if (!newTitle.trim() || !newDatetime) return;
+
+    createReminder(newTitle.trim(), newDatetime, newRecurrence);
+    setNewTitle("");
+    setNewDatetime("");
+    setNewRecurrence(undefined);
+  };
+
+  const addQuickReminder = (entry: ParsedEntry) => {
+    const datetime = toDateTime(entry);
+    if (!datetime) {
+      toast({
+        title: "When should we remind you?",
+        description: 'Add a date or time, like "tomorrow at 3pm" or "every monday 9am".',
+        variant: "destructive",
+      });
+      return false;
+    }
+    createReminder(entry.title, datetime, entry.recurrence);
+  };
+
   const deleteReminder = (id: string) => {
     setReminders(prev => prev.filter(r => r.id !== id));
   };
 
   const toggleReminder = (id: string) => {
-    setReminders(prev => prev.map(r => 
-      r.id === id ? { ...r, completed: !r.completed } : r
-    ));
+    setReminders(prev => prev.map(r => {
+      if (r.id !== id) return r;
+      if (r.completed) return { ...r, completed: false };
+      // Completing a recurring reminder moves it on to its next occurrence
+      return completeReminder(r);
+    }));
+  };
+
+  const snooze = (id: string, minutes: number) => {
+    setReminders(prev => prev.map(r => (r.id === id ? snoozeReminder(r, minutes) : r)));
+    toast({
+      title: "Reminder Snoozed",
+      description: `You'll be reminded again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    });
+  };
+
+  const applyCustomSnooze = () => {
+    const minutes = parseInt(customSnoozeMinutes);
+    if (!customSnoozeId || !minutes || minutes < 1) return;
+    snooze(customSnoozeId, minutes);
+    setCustomSnoozeId(null);
   };
 
   const getTimeUntil = (datetime: string) => {
@@ -115,6 +153,22 @@ export default function Reminders() {
         <p className="text-muted-foreground">Set reminders and get notified at the right time</p>
       </div>
 
+      {notificationPermission === "default" && (
+        <Card>
+          <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <BellRing className="h-5 w-5 text-primary shrink-0" />
+              <p className="text-sm text-muted-foreground">
+                Enable notifications to get reminders while you're in another tab or app.
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={enableNotifications}>
+              Enable Notifications
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -123,6 +177,11 @@ export default function Reminders() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          <QuickEntryInput
+            placeholder='Try "call Sam tomorrow at 3pm" or "standup weekdays 9:30"'
+            fields={["date", "time", "recurrence"]}
+            onSubmit={addQuickReminder}
+          />
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Input
               placeholder="Reminder title..."
@@ -136,6 +195,7 @@ export default function Reminders() {
               onChange={(e) => setNewDatetime(e.target.value)}
             />
           </div>
+          <RecurrencePicker value={newRecurrence} onChange={setNewRecurrence} anchor={newDatetime} />
           <Button onClick={addReminder} className="w-full md:w-auto">
             Add Reminder
           </Button>
@@ -151,7 +211,11 @@ export default function Reminders() {
           </Card>
         ) : (
           reminders.map((reminder) => (
-            <Card key={reminder.id} className={reminder.completed ? "opacity-60" : ""}>
+            <Card
+              key={reminder.id}
+              id={focusItemDomId(reminder.id)}
+              className={`${reminder.completed ? "opacity-60" : ""} ${focusedId === reminder.id ? "ring-2 ring-primary" : ""}`}
+            >
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div className="flex-1 space-y-1">
@@ -167,14 +231,48 @@ export default function Reminders() {
                         {reminder.completed ? "Completed" : getTimeUntil(reminder.datetime)}
                       </Badge>
                     </div>
+                    {(reminder.recurrence || reminder.snoozedUntil) && (
+                      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                        {reminder.recurrence && (
+                          <span className="flex items-center gap-1">
+                            <Repeat className="h-3 w-3" />
+                            {describeRecurrence(reminder.recurrence)}
+                          </span>
+                        )}
+                        {reminder.snoozedUntil && (
+                          <span className="flex items-center gap-1">
+                            <AlarmClock className="h-3 w-3" />
+                            Snoozed until {new Date(reminder.snoozedUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" title="Snooze">
+                          <AlarmClock className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {SNOOZE_OPTIONS.map(({ minutes, label }) => (
+                          <DropdownMenuItem key={minutes} onSelect={() => snooze(reminder.id, minutes)}>
+                            Snooze {label}
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onSelect={() => setCustomSnoozeId(reminder.id)}>
+                          Custom...
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                     <Button
                       variant="outline"
                       size="sm"
                       onClick={() => toggleReminder(reminder.id)}
                     >
-                      {reminder.completed ? "Restore" : "Complete"}
+                      {reminder.completed ? "Restore" : reminder.recurrence ? "Done" : "Complete"}
                     </Button>
                     <Button
                       variant="destructive"
@@ -190,6 +288,28 @@ export default function Reminders() {
           ))
         )}
       </div>
+
+      <Dialog open={customSnoozeId !== null} onOpenChange={(open) => !open && setCustomSnoozeId(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Custom Snooze</DialogTitle>
+            <DialogDescription>Remind me again in:</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              value={customSnoozeMinutes}
+              onChange={(e) => setCustomSnoozeMinutes(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && applyCustomSnooze()}
+            />
+            <span className="text-sm text-muted-foreground">minutes</span>
+          </div>
+          <DialogFooter>
+            <Button onClick={applyCustomSnooze}>Snooze</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -1,85 +1,344 @@
-import { useState, useEffect } from "react";
-import { CheckSquare, Plus, Trash2, Edit3, Check, X, Calendar } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CheckSquare, Plus, Trash2, Edit3, Check, X, Calendar, ChevronDown, ChevronRight, ListPlus, ListChecks, Search, Folder, Hash, Bookmark, ArrowUp, ArrowDown, List, Columns3, Repeat, Flame, History, Grid2x2, Sun, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { focusItemDomId, useFocusItem } from "@/hooks/use-focus-item";
+import { useStoredState } from "@/hooks/use-stored-state";
+import {
+  dayPlanSettingsStore,
+  savedTaskFiltersStore,
+  taskBoardStore,
+  tasksStore,
+  type BoardColumn,
+  type RecurrenceRule,
+  type Task,
+  type TaskSort,
+} from "@/lib/stores";
+import { QuickEntryInput } from "@/components/QuickEntryInput";
+import { TaskBoard } from "@/components/TaskBoard";
+import { TaskImportExportDialog } from "@/components/TaskImportExportDialog";
+import { TaskMatrix } from "@/components/TaskMatrix";
+import { TodayPlan } from "@/components/TodayPlan";
+import type { ImportedTask } from "@/lib/task-formats";
+import { RecurrencePicker } from "@/components/RecurrencePicker";
+import { describeRecurrence, type Frequency } from "@/lib/recurrence";
+import type { ParsedEntry } from "@/lib/quick-entry";
+import {
+  applyBoardColumns,
+  getAncestorIds,
+  getDescendantIds,
+  getStreak,
+  getSubtasks,
+  getTaskProgress,
+  moveTaskToColumn,
+  setTasksCompleted,
+  statusForCompletion,
+  todayString,
+} from "@/lib/tasks";
+import { compileTaskQuery, queryValue, sortTasks, TASK_SORT_LABELS } from "@/lib/task-query";
 
-interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  completed: boolean;
-  priority: "low" | "medium" | "high";
-  dueDate?: string;
-  createdAt: string;
+type Priority = Task["priority"];
+
+type RepeatFrom = NonNullable<Task["repeatFrom"]>;
+type TaskView = "list" | "board" | "matrix" | "today";
+
+const TASK_VIEWS: { value: TaskView; label: string; icon: typeof List }[] = [
+  { value: "list", label: "List view", icon: List },
+  { value: "board", label: "Board view", icon: Columns3 },
+  { value: "matrix", label: "Eisenhower matrix", icon: Grid2x2 },
+  { value: "today", label: "Today plan", icon: Sun },
+];
+
+const emptySubtaskDraft = { title: "", priority: "medium" as Priority, dueDate: "" };
+
+// Tasks are due on days, so they can't repeat by the hour
+const TASK_FREQUENCIES: Frequency[] = ["daily", "weekdays", "weekly", "monthly", "yearly"];
+
+interface TaskRecurrenceFieldsProps {
+  recurrence: RecurrenceRule | undefined;
+  repeatFrom: RepeatFrom;
+  dueDate: string;
+  onChange: (recurrence: RecurrenceRule | undefined, repeatFrom: RepeatFrom) => void;
+}
+
+// Recurrence settings shared by the add and edit forms
+function TaskRecurrenceFields({ recurrence, repeatFrom, dueDate, onChange }: TaskRecurrenceFieldsProps) {
+  return (
+    <div className="space-y-2">
+      <RecurrencePicker
+        value={recurrence}
+        onChange={(rule) => onChange(rule, repeatFrom)}
+        anchor={`${dueDate || todayString()}T00:00`}
+        frequencies={TASK_FREQUENCIES}
+      />
+      {recurrence && (
+        <select
+          value={repeatFrom}
+          onChange={(e) => onChange(recurrence, e.target.value as RepeatFrom)}
+          className="input-field"
+        >
+          <option value="schedule">Next one is due on schedule</option>
+          <option value="completion">Next one is due counted from completion</option>
+        </select>
+      )}
+    </div>
+  );
 }
 
+const BUILT_IN_VIEWS = [
+  { name: "All", query: "" },
+  { name: "Active", query: "-completed" },
+  { name: "Completed", query: "completed" },
+  { name: "Overdue", query: "overdue" },
+  { name: "Due this week", query: "due:<7d -completed" },
+];
+
+// Tags are typed as a comma- or space-separated list, with or without "#"
+const parseTags = (text: string) =>
+  [...new Set(text.split(/[\s,]+/).map(tag => tag.replace(/^#/, "").trim()).filter(Boolean))];
+
 export default function TodoList() {
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [tasks, setTasks] = useStoredState(tasksStore);
   const [newTaskTitle, setNewTaskTitle] = useState("");
   const [newTaskDescription, setNewTaskDescription] = useState("");
   const [newTaskPriority, setNewTaskPriority] = useState<"low" | "medium" | "high">("medium");
   const [newTaskDueDate, setNewTaskDueDate] = useState("");
+  const [newTaskProject, setNewTaskProject] = useState("");
+  const [newTaskTags, setNewTaskTags] = useState("");
+  const [newTaskRecurrence, setNewTaskRecurrence] = useState<RecurrenceRule | undefined>();
+  const [newTaskRepeatFrom, setNewTaskRepeatFrom] = useState<RepeatFrom>("schedule");
   const [editingTask, setEditingTask] = useState<string | null>(null);
-  const [filter, setFilter] = useState<"all" | "active" | "completed">("all");
+  const [editDraft, setEditDraft] = useState({
+    title: "",
+    priority: "medium" as Priority,
+    dueDate: "",
+    project: "",
+    tags: "",
+    recurrence: undefined as RecurrenceRule | undefined,
+    repeatFrom: "schedule" as RepeatFrom,
+    urgent: false,
+    important: false,
+    estimate: "",
+  });
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<TaskSort>("manual");
+  const [savedFilters, setSavedFilters] = useStoredState(savedTaskFiltersStore);
+  const [filterName, setFilterName] = useState("");
+  const [view, setView] = useState<TaskView>("list");
+  const [dayPlanSettings, setDayPlanSettings] = useStoredState(dayPlanSettingsStore);
+  const [columns, setColumns] = useStoredState(taskBoardStore);
   const { toast } = useToast();
+  const focusedId = useFocusItem(tasks.length);
+  const [subtaskParentId, setSubtaskParentId] = useState<string | null>(null);
+  const [subtaskDraft, setSubtaskDraft] = useState(emptySubtaskDraft);
+  const [checklistTaskId, setChecklistTaskId] = useState<string | null>(null);
+  const [checklistDraft, setChecklistDraft] = useState("");
+  const [pendingCompletionId, setPendingCompletionId] = useState<string | null>(null);
+  const expandedFocusRef = useRef<string | null>(null);
 
-  // Load tasks from localStorage
+  // Expand the parents of a subtask opened from the command palette
   useEffect(() => {
-    const saved = localStorage.getItem("productivity-tasks");
-    if (saved) {
-      setTasks(JSON.parse(saved));
+    if (!focusedId || expandedFocusRef.current === focusedId) return;
+    if (!tasks.some(task => task.id === focusedId)) return;
+    expandedFocusRef.current = focusedId;
+
+    const ancestorIds = getAncestorIds(tasks, focusedId);
+    setTasks(prev => prev.map(task =>
+      ancestorIds.includes(task.id) && task.collapsed ? { ...task, collapsed: false } : task
+    ));
+  }, [focusedId, tasks, setTasks]);
+
+  const createTask = (
+    fields: Pick<Task, "title" | "description" | "priority" | "dueDate" | "parentId" | "project" | "recurrence" | "repeatFrom"> & {
+      tags?: string[];
+      urgent?: boolean;
+      important?: boolean;
     }
-  }, []);
+  ) => {
+    // A series needs a due date to roll forward from
+    const dueDate = fields.dueDate ?? (fields.recurrence ? todayString() : undefined);
+    // New tasks go to the top of the manual order; subtasks go after their siblings
+    const orders = tasks.filter(t => t.parentId === fields.parentId).map(t => t.order);
+    const task: Task = {
+      id: crypto.randomUUID(),
+      ...fields,
+      dueDate,
+      recurrence: fields.recurrence ? { ...fields.recurrence, anchor: `${dueDate}T00:00` } : undefined,
+      repeatFrom: fields.recurrence ? fields.repeatFrom : undefined,
+      tags: fields.tags ?? [],
+      urgent: fields.urgent ?? false,
+      important: fields.important ?? fields.priority === "high",
+      completed: false,
+      createdAt: new Date().toISOString(),
+      checklist: [],
+      order: fields.parentId ? Math.max(0, ...orders) + 1 : Math.min(0, ...orders) - 1,
+      status: (columns.find(column => !column.done) ?? columns[0]).id,
+    };
 
-  // Save tasks to localStorage
-  useEffect(() => {
-    localStorage.setItem("productivity-tasks", JSON.stringify(tasks));
-  }, [tasks]);
+    setTasks(prev => [task, ...prev]);
+    
+    toast({
+      title: "Task Added",
+      description: task.recurrence
+        ? `"${task.title}" repeats ${describeRecurrence(task.recurrence).toLowerCase()}.`
+        : `"${task.title}" has been added to your todo list.`,
+    });
+  };
 
   const addTask = () => {
     if (!newTaskTitle.trim()) return;
 
-    const task: Task = {
-      id: crypto.randomUUID(),
+    createTask({
       title: newTaskTitle.trim(),
       description: newTaskDescription.trim() || undefined,
-      completed: false,
       priority: newTaskPriority,
       dueDate: newTaskDueDate || undefined,
-      createdAt: new Date().toISOString(),
-    };
-
-    setTasks(prev => [task, ...prev]);
+      project: newTaskProject.trim() || undefined,
+      tags: parseTags(newTaskTags),
+      recurrence: newTaskRecurrence,
+      repeatFrom: newTaskRepeatFrom,
+    });
     setNewTaskTitle("");
     setNewTaskDescription("");
     setNewTaskDueDate("");
-    
-    toast({
-      title: "Task Added",
-      description: `"${task.title}" has been added to your todo list.`,
+    setNewTaskTags("");
+    setNewTaskRecurrence(undefined);
+  };
+
+  const addQuickTask = (entry: ParsedEntry) => {
+    createTask({
+      title: entry.title,
+      priority: entry.priority ?? newTaskPriority,
+      dueDate: entry.date,
+      project: entry.project,
+      tags: entry.tags,
+      recurrence: entry.recurrence && TASK_FREQUENCIES.includes(entry.recurrence.frequency) ? entry.recurrence : undefined,
+      repeatFrom: entry.repeatFrom ?? "schedule",
     });
   };
 
+  const setCompleted = (ids: string[], completed: boolean) => {
+    setTasks(prev => setTasksCompleted(prev, columns, ids, completed));
+  };
+
+  // Completing a task with open subtasks asks whether to complete them too
   const toggleTask = (id: string) => {
-    setTasks(prev => prev.map(task => 
-      task.id === id 
-        ? { ...task, completed: !task.completed }
-        : task
-    ));
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    const hasOpenSubtasks = getDescendantIds(tasks, id).some(childId => !tasks.find(t => t.id === childId)?.completed);
+    if (!task.completed && hasOpenSubtasks) {
+      setPendingCompletionId(id);
+      return;
+    }
+    setCompleted([id], !task.completed);
+  };
+
+  const completePending = (includeSubtasks: boolean) => {
+    if (!pendingCompletionId) return;
+    setCompleted(
+      includeSubtasks ? [pendingCompletionId, ...getDescendantIds(tasks, pendingCompletionId)] : [pendingCompletionId],
+      true
+    );
+    setPendingCompletionId(null);
+  };
+
+  const moveOnBoard = (id: string, column: BoardColumn, beforeId?: string) => {
+    setTasks(prev => moveTaskToColumn(prev, columns, id, column, beforeId));
+  };
+
+  const updateColumns = (next: BoardColumn[]) => {
+    setColumns(next);
+    setTasks(prev => applyBoardColumns(prev, next));
+  };
+
+  // Imported tasks keep their file order, after everything already listed
+  const importTasks = (imported: ImportedTask[]) => {
+    const offset = Math.max(0, ...tasks.map(task => task.order)) + 1;
+    setTasks(prev => [
+      ...prev,
+      ...imported.map(task => ({
+        ...task,
+        order: task.order + offset,
+        status: statusForCompletion(columns, { ...task, status: "" }, task.completed),
+      })),
+    ]);
   };
 
   const deleteTask = (id: string) => {
-    setTasks(prev => prev.filter(task => task.id !== id));
+    const removed = [id, ...getDescendantIds(tasks, id)];
+    setTasks(prev => prev.filter(task => !removed.includes(task.id)));
     toast({
       title: "Task Deleted",
-      description: "Task has been removed from your list.",
+      description: removed.length > 1
+        ? `Task and ${removed.length - 1} subtask(s) have been removed from your list.`
+        : "Task has been removed from your list.",
     });
   };
 
+  const toggleCollapsed = (id: string) => {
+    setTasks(prev => prev.map(task => 
+      task.id === id ? { ...task, collapsed: !task.collapsed } : task
+    ));
+  };
+
+  const openSubtaskForm = (parent: Task) => {
+    setSubtaskParentId(parent.id);
+    setSubtaskDraft({ ...emptySubtaskDraft, priority: parent.priority });
+    if (parent.collapsed) toggleCollapsed(parent.id);
+  };
+
+  const addSubtask = () => {
+    if (!subtaskParentId || !subtaskDraft.title.trim()) return;
+
+    createTask({
+      title: subtaskDraft.title.trim(),
+      priority: subtaskDraft.priority,
+      dueDate: subtaskDraft.dueDate || undefined,
+      parentId: subtaskParentId,
+      project: tasks.find(t => t.id === subtaskParentId)?.project,
+    });
+    setSubtaskDraft(prev => ({ ...emptySubtaskDraft, priority: prev.priority }));
+  };
+
+  const openChecklistForm = (task: Task) => {
+    setChecklistTaskId(task.id);
+    setChecklistDraft("");
+    if (task.collapsed) toggleCollapsed(task.id);
+  };
+
+  const addChecklistItem = () => {
+    if (!checklistTaskId || !checklistDraft.trim()) return;
+
+    const item = { id: crypto.randomUUID(), text: checklistDraft.trim(), done: false };
+    setTasks(prev => prev.map(task =>
+      task.id === checklistTaskId ? { ...task, checklist: [...task.checklist, item] } : task
+    ));
+    setChecklistDraft("");
+  };
+
+  const updateChecklist = (taskId: string, update: (checklist: Task["checklist"]) => Task["checklist"]) => {
+    setTasks(prev => prev.map(task =>
+      task.id === taskId ? { ...task, checklist: update(task.checklist) } : task
+    ));
+  };
+
   const updateTask = (id: string, updates: Partial<Task>) => {
     setTasks(prev => prev.map(task => 
       task.id === id ? { ...task, ...updates } : task
@@ -87,11 +346,80 @@ export default function TodoList() {
     setEditingTask(null);
   };
 
-  const filteredTasks = tasks.filter(task => {
-    if (filter === "active") return !task.completed;
-    if (filter === "completed") return task.completed;
-    return true;
-  });
+  const startEditing = (task: Task) => {
+    setEditingTask(task.id);
+    setEditDraft({
+      title: task.title,
+      priority: task.priority,
+      dueDate: task.dueDate ?? "",
+      project: task.project ?? "",
+      tags: task.tags.join(", "),
+      recurrence: task.recurrence,
+      repeatFrom: task.repeatFrom ?? "schedule",
+      urgent: task.urgent,
+      important: task.important,
+      estimate: task.estimateMinutes ? String(task.estimateMinutes) : "",
+    });
+  };
+
+  const saveEdit = (id: string) => {
+    if (!editDraft.title.trim()) return;
+    updateTask(id, {
+      title: editDraft.title.trim(),
+      priority: editDraft.priority,
+      dueDate: editDraft.dueDate || undefined,
+      project: editDraft.project.trim() || undefined,
+      tags: parseTags(editDraft.tags),
+      recurrence: editDraft.recurrence
+        ? { ...editDraft.recurrence, anchor: `${editDraft.dueDate || todayString()}T00:00` }
+        : undefined,
+      repeatFrom: editDraft.recurrence ? editDraft.repeatFrom : undefined,
+      // Keep the series rolling from a due date
+      ...(editDraft.recurrence && !editDraft.dueDate ? { dueDate: todayString() } : {}),
+      urgent: editDraft.urgent,
+      important: editDraft.important,
+      estimateMinutes: parseInt(editDraft.estimate) > 0 ? parseInt(editDraft.estimate) : undefined,
+    });
+  };
+
+  // Swap a task with its neighbour in the list as currently shown
+  const moveTask = (task: Task, siblings: Task[], direction: -1 | 1) => {
+    const index = siblings.findIndex(t => t.id === task.id);
+    const neighbour = siblings[index + direction];
+    if (!neighbour) return;
+
+    // Renumber the siblings first so equal orders from older data can still swap
+    const orders = new Map(siblings.map((t, i) => [t.id, i]));
+    orders.set(task.id, index + direction);
+    orders.set(neighbour.id, index);
+    setTasks(prev => prev.map(t => (orders.has(t.id) ? { ...t, order: orders.get(t.id)! } : t)));
+  };
+
+  const applyFilter = (nextQuery: string, nextSort?: TaskSort) => {
+    setQuery(nextQuery);
+    if (nextSort) setSort(nextSort);
+  };
+
+  const saveFilter = () => {
+    if (!filterName.trim() || !query.trim()) return;
+    setSavedFilters(prev => [...prev, { id: crypto.randomUUID(), name: filterName.trim(), query: query.trim(), sort }]);
+    setFilterName("");
+    toast({
+      title: "Filter Saved",
+      description: `"${filterName.trim()}" has been added to your saved filters.`,
+    });
+  };
+
+  const deleteFilter = (id: string) => {
+    setSavedFilters(prev => prev.filter(f => f.id !== id));
+  };
+
+  const compiledQuery = useMemo(() => compileTaskQuery(query), [query]);
+  const filteredTasks = sortTasks(tasks.filter(compiledQuery.matches), sort);
+  const countMatching = (viewQuery: string) => tasks.filter(compileTaskQuery(viewQuery).matches).length;
+
+  const projects = [...new Set(tasks.map(task => task.project).filter((project): project is string => !!project))].sort();
+  const tags = [...new Set(tasks.flatMap(task => task.tags))].sort();
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -107,8 +435,371 @@ export default function TodoList() {
     return new Date(dueDate) < new Date();
   };
 
+  // Matching subtasks render under their parent when it matches too, and at the top level otherwise
+  const rootTasks = filteredTasks.filter(task => !task.parentId || !filteredTasks.some(t => t.id === task.parentId));
+
+  const renderTask = (task: Task, siblings: Task[]) => {
+    const subtasks = sortTasks(getSubtasks(tasks, task.id), sort);
+    const progress = getTaskProgress(tasks, task);
+    const history = task.history ?? [];
+    const streak = getStreak(task);
+    const hasChildren = subtasks.length > 0 || task.checklist.length > 0;
+    const showChildren = !task.collapsed && (hasChildren || subtaskParentId === task.id || checklistTaskId === task.id);
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-start gap-3">
+          {hasChildren ? (
+            <button
+              onClick={() => toggleCollapsed(task.id)}
+              className="mt-1 text-muted-foreground hover:text-foreground"
+              title={task.collapsed ? "Expand" : "Collapse"}
+            >
+              {task.collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+          ) : (
+            <span className="w-4 shrink-0" />
+          )}
+          <Checkbox
+            checked={task.completed}
+            onCheckedChange={() => toggleTask(task.id)}
+            className="mt-1"
+          />
+          
+          <div className="flex-1 space-y-2">
+            {editingTask === task.id ? (
+              <div className="space-y-2">
+                <Input
+                  autoFocus
+                  value={editDraft.title}
+                  onChange={(e) => setEditDraft(prev => ({ ...prev, title: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveEdit(task.id);
+                    if (e.key === "Escape") setEditingTask(null);
+                  }}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                  <select
+                    value={editDraft.priority}
+                    onChange={(e) => setEditDraft(prev => ({ ...prev, priority: e.target.value as Priority }))}
+                    className="input-field"
+                  >
+                    <option value="low">Low Priority</option>
+                    <option value="medium">Medium Priority</option>
+                    <option value="high">High Priority</option>
+                  </select>
+                  <Input
+                    type="date"
+                    value={editDraft.dueDate}
+                    onChange={(e) => setEditDraft(prev => ({ ...prev, dueDate: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="Project"
+                    list="todo-projects"
+                    value={editDraft.project}
+                    onChange={(e) => setEditDraft(prev => ({ ...prev, project: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="Tags"
+                    value={editDraft.tags}
+                    onChange={(e) => setEditDraft(prev => ({ ...prev, tags: e.target.value }))}
+                  />
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  <label className="flex items-center gap-2">
+                    <Checkbox
+                      checked={editDraft.urgent}
+                      onCheckedChange={(checked) => setEditDraft(prev => ({ ...prev, urgent: checked === true }))}
+                    />
+                    Urgent
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <Checkbox
+                      checked={editDraft.important}
+                      onCheckedChange={(checked) => setEditDraft(prev => ({ ...prev, important: checked === true }))}
+                    />
+                    Important
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    <Input
+                      type="number"
+                      min={5}
+                      step={5}
+                      placeholder="Estimate"
+                      value={editDraft.estimate}
+                      onChange={(e) => setEditDraft(prev => ({ ...prev, estimate: e.target.value }))}
+                      className="h-8 w-24"
+                    />
+                    minutes
+                  </label>
+                </div>
+                <TaskRecurrenceFields
+                  recurrence={editDraft.recurrence}
+                  repeatFrom={editDraft.repeatFrom}
+                  dueDate={editDraft.dueDate}
+                  onChange={(recurrence, repeatFrom) => setEditDraft(prev => ({ ...prev, recurrence, repeatFrom }))}
+                />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => saveEdit(task.id)}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Save
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditingTask(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+            <div className="flex items-start justify-between">
+              <div className="space-y-1">
+                <h3 className={`font-medium ${task.completed ? "line-through" : ""}`}>
+                  {task.title}
+                </h3>
+                {task.description && (
+                  <p className={`text-sm text-muted-foreground ${task.completed ? "line-through" : ""}`}>
+                    {task.description}
+                  </p>
+                )}
+                {(task.project || task.tags.length > 0) && (
+                  <div className="flex flex-wrap items-center gap-1">
+                    {task.project && (
+                      <button onClick={() => applyFilter(`project:${queryValue(task.project!)}`)}>
+                        <Badge variant="secondary" className="gap-1">
+                          <Folder className="h-3 w-3" />
+                          {task.project}
+                        </Badge>
+                      </button>
+                    )}
+                    {task.tags.map(tag => (
+                      <button key={tag} onClick={() => applyFilter(`tag:${queryValue(tag)}`)}>
+                        <Badge variant="outline" className="gap-1">
+                          <Hash className="h-3 w-3" />
+                          {tag}
+                        </Badge>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              
+              <div className="flex items-center gap-2">
+                <Badge variant={getPriorityColor(task.priority) as any}>
+                  {task.priority}
+                </Badge>
+                
+                {task.dueDate && (
+                  <Badge variant={isOverdue(task.dueDate) && !task.completed ? "destructive" : "outline"}>
+                    <Calendar className="w-3 h-3 mr-1" />
+                    {new Date(task.dueDate).toLocaleDateString()}
+                  </Badge>
+                )}
+              </div>
+            </div>
+            )}
+
+            {(task.recurrence || history.length > 0) && (
+              <div className="flex flex-wrap items-center gap-2">
+                {task.recurrence && (
+                  <Badge variant="outline" className="gap-1">
+                    <Repeat className="h-3 w-3" />
+                    {describeRecurrence(task.recurrence)}
+                    {task.repeatFrom === "completion" && " after completion"}
+                  </Badge>
+                )}
+                {streak > 0 && (
+                  <Badge variant="secondary" className="gap-1" title="Completed on time in a row">
+                    <Flame className="h-3 w-3 text-orange-500" />
+                    {streak} streak
+                  </Badge>
+                )}
+                {history.length > 0 && (
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <button className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                        <History className="h-3 w-3" />
+                        Done {history.length} time{history.length === 1 ? "" : "s"}
+                      </button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-64 p-3">
+                      <p className="mb-2 text-sm font-medium">Completion history</p>
+                      <div className="max-h-60 space-y-1 overflow-y-auto text-sm">
+                        {[...history].reverse().map(entry => {
+                          const late = !!entry.dueDate && todayString(new Date(entry.completedAt)) > entry.dueDate;
+                          return (
+                            <div key={entry.completedAt} className="flex items-center justify-between">
+                              <span>{new Date(entry.completedAt).toLocaleDateString()}</span>
+                              <span className={`text-xs ${late ? "text-red-500" : "text-muted-foreground"}`}>
+                                {entry.dueDate
+                                  ? `${late ? "late, " : ""}due ${new Date(entry.dueDate).toLocaleDateString()}`
+                                  : "no due date"}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </PopoverContent>
+                  </Popover>
+                )}
+              </div>
+            )}
+
+            {progress && (
+              <div className="flex items-center gap-2">
+                <Progress value={progress.ratio * 100} className="h-2 flex-1" />
+                <span className="text-xs text-muted-foreground">{progress.done}/{progress.total}</span>
+              </div>
+            )}
+            
+            {!task.parentId && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                Created: {new Date(task.createdAt).toLocaleDateString()}
+                {isOverdue(task.dueDate) && !task.completed && (
+                  <span className="text-red-500 font-medium">• Overdue</span>
+                )}
+              </div>
+            )}
+          </div>
+          
+          <div className="flex items-center gap-1">
+            {sort === "manual" && (
+              <div className="flex flex-col">
+                <button
+                  onClick={() => moveTask(task, siblings, -1)}
+                  disabled={siblings[0]?.id === task.id}
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => moveTask(task, siblings, 1)}
+                  disabled={siblings[siblings.length - 1]?.id === task.id}
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </button>
+              </div>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => startEditing(task)} title="Edit task">
+              <Edit3 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => openSubtaskForm(task)} title="Add subtask">
+              <ListPlus className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => openChecklistForm(task)} title="Add checklist item">
+              <ListChecks className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => deleteTask(task.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {showChildren && (
+          <div className="ml-6 pl-4 border-l space-y-3">
+            {task.checklist.map((item) => (
+              <div key={item.id} className="flex items-center gap-2 group">
+                <Checkbox
+                  checked={item.done}
+                  onCheckedChange={() =>
+                    updateChecklist(task.id, checklist => checklist.map(i => i.id === item.id ? { ...i, done: !i.done } : i))
+                  }
+                />
+                <span className={`text-sm flex-1 ${item.done ? "line-through text-muted-foreground" : ""}`}>
+                  {item.text}
+                </span>
+                <button
+                  onClick={() => updateChecklist(task.id, checklist => checklist.filter(i => i.id !== item.id))}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  title="Remove item"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+
+            {checklistTaskId === task.id && (
+              <div className="flex gap-2">
+                <Input
+                  autoFocus
+                  placeholder="Checklist item..."
+                  value={checklistDraft}
+                  onChange={(e) => setChecklistDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") addChecklistItem();
+                    if (e.key === "Escape") setChecklistTaskId(null);
+                  }}
+                  className="h-8"
+                />
+                <Button size="sm" onClick={addChecklistItem}>
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setChecklistTaskId(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {subtasks.map((subtask) => (
+              <div
+                key={subtask.id}
+                id={focusItemDomId(subtask.id)}
+                className={`rounded-md ${subtask.completed ? "opacity-75" : ""} ${focusedId === subtask.id ? "ring-2 ring-primary p-2" : ""}`}
+              >
+                {renderTask(subtask, subtasks)}
+              </div>
+            ))}
+
+            {subtaskParentId === task.id && (
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto_auto_auto] gap-2">
+                <Input
+                  autoFocus
+                  placeholder="Subtask title..."
+                  value={subtaskDraft.title}
+                  onChange={(e) => setSubtaskDraft(prev => ({ ...prev, title: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") addSubtask();
+                    if (e.key === "Escape") setSubtaskParentId(null);
+                  }}
+                  className="h-8"
+                />
+                <select
+                  value={subtaskDraft.priority}
+                  onChange={(e) => setSubtaskDraft(prev => ({ ...prev, priority: e.target.value as Priority }))}
+                  className="input-field h-8 py-0"
+                >
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </select>
+                <Input
+                  type="date"
+                  value={subtaskDraft.dueDate}
+                  onChange={(e) => setSubtaskDraft(prev => ({ ...prev, dueDate: e.target.value }))}
+                  className="h-8"
+                />
+                <Button size="sm" onClick={addSubtask}>
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSubtaskParentId(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
-    <div className="max-w-4xl mx-auto space-y-6">
+    <div className="max-w-6xl mx-auto space-y-6">
       <div className="text-center space-y-2">
         <div className="flex items-center justify-center gap-2 text-3xl font-bold">
           <CheckSquare className="h-8 w-8 text-primary" />
@@ -126,6 +817,11 @@ export default function TodoList() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          <QuickEntryInput
+            placeholder='Try "submit report friday !high #work +acme"'
+            fields={["date", "recurrence", "priority", "tags", "project"]}
+            onSubmit={addQuickTask}
+          />
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <Input
               placeholder="Task title..."
@@ -138,6 +834,22 @@ export default function TodoList() {
               value={newTaskDescription}
               onChange={(e) => setNewTaskDescription(e.target.value)}
             />
+            <Input
+              placeholder="Project (optional)..."
+              list="todo-projects"
+              value={newTaskProject}
+              onChange={(e) => setNewTaskProject(e.target.value)}
+            />
+            <Input
+              placeholder="Tags, separated by spaces or commas..."
+              value={newTaskTags}
+              onChange={(e) => setNewTaskTags(e.target.value)}
+            />
+            <datalist id="todo-projects">
+              {projects.map(project => (
+                <option key={project} value={project} />
+              ))}
+            </datalist>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <select
@@ -159,103 +871,216 @@ export default function TodoList() {
               Add Task
             </Button>
           </div>
+          <TaskRecurrenceFields
+            recurrence={newTaskRecurrence}
+            repeatFrom={newTaskRepeatFrom}
+            dueDate={newTaskDueDate}
+            onChange={(recurrence, repeatFrom) => {
+              setNewTaskRecurrence(recurrence);
+              setNewTaskRepeatFrom(repeatFrom);
+            }}
+          />
         </CardContent>
       </Card>
 
-      {/* Filter Buttons */}
-      <div className="flex justify-center gap-2">
-        <Button
-          variant={filter === "all" ? "default" : "outline"}
-          onClick={() => setFilter("all")}
-          size="sm"
-        >
-          All ({tasks.length})
-        </Button>
-        <Button
-          variant={filter === "active" ? "default" : "outline"}
-          onClick={() => setFilter("active")}
-          size="sm"
-        >
-          Active ({tasks.filter(t => !t.completed).length})
-        </Button>
-        <Button
-          variant={filter === "completed" ? "default" : "outline"}
-          onClick={() => setFilter("completed")}
-          size="sm"
-        >
-          Completed ({tasks.filter(t => t.completed).length})
-        </Button>
-      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6">
+        {/* Views, projects, tags and saved filters */}
+        <Card className="h-fit">
+          <CardContent className="p-4 space-y-4">
+            <div className="space-y-1">
+              {BUILT_IN_VIEWS.map(view => (
+                <button
+                  key={view.name}
+                  onClick={() => applyFilter(view.query)}
+                  className={`w-full flex items-center justify-between rounded-md px-2 py-1.5 text-sm hover:bg-muted ${query === view.query ? "bg-muted font-medium" : ""}`}
+                >
+                  {view.name}
+                  <span className="text-muted-foreground">{countMatching(view.query)}</span>
+                </button>
+              ))}
+            </div>
 
-      {/* Tasks List */}
-      <div className="space-y-3">
-        {filteredTasks.length === 0 ? (
-          <Card>
-            <CardContent className="p-8 text-center text-muted-foreground">
-              {filter === "all" ? "No tasks yet. Add one above to get started!" :
-               filter === "active" ? "No active tasks. Great job!" :
-               "No completed tasks yet."}
-            </CardContent>
-          </Card>
-        ) : (
-          filteredTasks.map((task) => (
-            <Card key={task.id} className={task.completed ? "opacity-75" : ""}>
-              <CardContent className="p-4">
-                <div className="flex items-start gap-3">
-                  <Checkbox
-                    checked={task.completed}
-                    onCheckedChange={() => toggleTask(task.id)}
-                    className="mt-1"
-                  />
-                  
-                  <div className="flex-1 space-y-2">
-                    <div className="flex items-start justify-between">
-                      <div className="space-y-1">
-                        <h3 className={`font-medium ${task.completed ? "line-through" : ""}`}>
-                          {task.title}
-                        </h3>
-                        {task.description && (
-                          <p className={`text-sm text-muted-foreground ${task.completed ? "line-through" : ""}`}>
-                            {task.description}
-                          </p>
-                        )}
-                      </div>
-                      
-                      <div className="flex items-center gap-2">
-                        <Badge variant={getPriorityColor(task.priority) as any}>
-                          {task.priority}
-                        </Badge>
-                        
-                        {task.dueDate && (
-                          <Badge variant={isOverdue(task.dueDate) && !task.completed ? "destructive" : "outline"}>
-                            <Calendar className="w-3 h-3 mr-1" />
-                            {new Date(task.dueDate).toLocaleDateString()}
-                          </Badge>
-                        )}
-                      </div>
-                    </div>
-                    
-                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                      Created: {new Date(task.createdAt).toLocaleDateString()}
-                      {isOverdue(task.dueDate) && !task.completed && (
-                        <span className="text-red-500 font-medium">• Overdue</span>
-                      )}
-                    </div>
-                  </div>
-                  
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={() => deleteTask(task.id)}
+            {projects.length > 0 && (
+              <div className="space-y-1">
+                <p className="px-2 text-xs font-semibold uppercase text-muted-foreground">Projects</p>
+                {projects.map(project => {
+                  const projectQuery = `project:${queryValue(project)}`;
+                  return (
+                    <button
+                      key={project}
+                      onClick={() => applyFilter(projectQuery)}
+                      className={`w-full flex items-center justify-between rounded-md px-2 py-1.5 text-sm hover:bg-muted ${query === projectQuery ? "bg-muted font-medium" : ""}`}
+                    >
+                      <span className="flex items-center gap-2 truncate">
+                        <Folder className="h-4 w-4 shrink-0" />
+                        {project}
+                      </span>
+                      <span className="text-muted-foreground">{countMatching(`${projectQuery} -completed`)}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {tags.length > 0 && (
+              <div className="space-y-1">
+                <p className="px-2 text-xs font-semibold uppercase text-muted-foreground">Tags</p>
+                <div className="flex flex-wrap gap-1 px-2">
+                  {tags.map(tag => (
+                    <button key={tag} onClick={() => applyFilter(`tag:${queryValue(tag)}`)}>
+                      <Badge variant={query === `tag:${queryValue(tag)}` ? "default" : "outline"} className="gap-1">
+                        <Hash className="h-3 w-3" />
+                        {tag}
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <p className="px-2 text-xs font-semibold uppercase text-muted-foreground">Saved filters</p>
+              {savedFilters.length === 0 && (
+                <p className="px-2 text-sm text-muted-foreground">None yet</p>
+              )}
+              {savedFilters.map(saved => (
+                <div
+                  key={saved.id}
+                  className={`group flex items-center rounded-md text-sm hover:bg-muted ${query === saved.query && sort === saved.sort ? "bg-muted font-medium" : ""}`}
+                >
+                  <button
+                    onClick={() => applyFilter(saved.query, saved.sort)}
+                    className="flex flex-1 items-center gap-2 truncate px-2 py-1.5 text-left"
+                    title={saved.query}
                   >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                    <Bookmark className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{saved.name}</span>
+                  </button>
+                  <button
+                    onClick={() => deleteFilter(saved.id)}
+                    className="px-2 text-muted-foreground opacity-0 hover:text-destructive group-hover:opacity-100"
+                    title="Delete filter"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
                 </div>
+              ))}
+              <div className="flex gap-1 pt-1">
+                <Input
+                  placeholder="Filter name"
+                  value={filterName}
+                  onChange={(e) => setFilterName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && saveFilter()}
+                  className="h-8"
+                />
+                <Button size="sm" onClick={saveFilter} disabled={!filterName.trim() || !query.trim()} title="Save current filter">
+                  <Bookmark className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-3">
+          {/* Query and sort */}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Filter, e.g. project:work tag:urgent due:<7d priority:high -completed"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-9 font-mono text-sm"
+              />
+            </div>
+            {view === "list" && (
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as TaskSort)}
+                className="input-field sm:w-44"
+              >
+                {(Object.keys(TASK_SORT_LABELS) as TaskSort[]).map(option => (
+                  <option key={option} value={option}>
+                    {TASK_SORT_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="flex gap-1">
+              {TASK_VIEWS.map(({ value, label, icon: Icon }) => (
+                <Button
+                  key={value}
+                  variant={view === value ? "default" : "outline"}
+                  size="icon"
+                  onClick={() => setView(value)}
+                  title={label}
+                >
+                  <Icon className="h-4 w-4" />
+                </Button>
+              ))}
+              <TaskImportExportDialog tasks={filteredTasks} onImport={importTasks} />
+            </div>
+          </div>
+          {compiledQuery.errors.length > 0 && (
+            <p className="text-sm text-destructive">{compiledQuery.errors.join(" · ")}</p>
+          )}
+
+          {/* Tasks List */}
+          {view === "board" ? (
+            <TaskBoard
+              tasks={tasks}
+              visibleTasks={filteredTasks}
+              columns={columns}
+              onColumnsChange={updateColumns}
+              onMove={moveOnBoard}
+            />
+          ) : view === "matrix" ? (
+            <TaskMatrix tasks={tasks} visibleTasks={filteredTasks} onChange={updateTask} />
+          ) : view === "today" ? (
+            <TodayPlan
+              tasks={tasks}
+              backlogTasks={filteredTasks}
+              availableHours={dayPlanSettings.availableHours}
+              onAvailableHoursChange={(availableHours) => setDayPlanSettings({ availableHours })}
+              onToggle={toggleTask}
+              onChange={updateTask}
+            />
+          ) : rootTasks.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                {tasks.length === 0 ? "No tasks yet. Add one above to get started!" : "No tasks match this filter."}
               </CardContent>
             </Card>
-          ))
-        )}
+          ) : (
+            rootTasks.map((task) => (
+              <Card
+                key={task.id}
+                id={focusItemDomId(task.id)}
+                className={`${task.completed ? "opacity-75" : ""} ${focusedId === task.id ? "ring-2 ring-primary" : ""}`}
+              >
+                <CardContent className="p-4">
+                  {renderTask(task, rootTasks)}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
       </div>
+
+      <AlertDialog open={pendingCompletionId !== null} onOpenChange={(open) => !open && setPendingCompletionId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Complete subtasks too?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This task still has unfinished subtasks. You can complete them all, or just this task.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => completePending(false)}>Only This Task</AlertDialogCancel>
+            <AlertDialogAction onClick={() => completePending(true)}>Complete All</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
@@ -1,11 +1,13 @@
-import { useState, useEffect, useMemo } from "react";
+import { useMemo } from "react";
 import { Hash, FileText, Clock, BarChart3 } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { useStoredState } from "@/hooks/use-stored-state";
+import { wordCounterTextStore } from "@/lib/stores";
 
 export default function WordCounter() {
-  const [text, setText] = useState("");
+  const [text, setText] = useStoredState(wordCounterTextStore);
 
   const stats = useMemo(() => {
     if (!text) {
@@ -64,19 +66,6 @@ export default function WordCounter() {
     };
   }, [text]);
 
-  // Load text from localStorage
-  useEffect(() => {
-    const saved = localStorage.getItem("productivity-word-counter-text");
-    if (saved) {
-      setText(saved);
-    }
-  }, []);
-
-  // Save text to localStorage
-  useEffect(() => {
-    localStorage.setItem("productivity-word-counter-text", text);
-  }, [text]);
-
   const StatCard = ({ icon: Icon, title, value, subtitle }: { 
     icon: React.ElementType; 
     title: string; 
@@ -1,8 +1,42 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+// Fill in the service worker's precache list once the bundle is written, so
+// the app shell, every lazy tool chunk and the pdf.js worker work offline.
+function precacheManifest(): Plugin {
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    writeBundle(options, bundle) {
+      const outDir = options.dir ?? "dist";
+      const swPath = path.join(outDir, "sw.js");
+      if (!fs.existsSync(swPath)) return;
+
+      const emitted = Object.keys(bundle).filter((file) => !file.endsWith(".map"));
+      const publicFiles = fs.readdirSync(path.resolve(__dirname, "public")).filter((file) => file !== "sw.js");
+      const urls = ["/", ...new Set([...emitted, ...publicFiles])].map((file) =>
+        file.startsWith("/") ? file : `/${file}`
+      );
+      // Version the cache by content so any change to a precached file, even
+      // one without a hashed name, installs a fresh copy
+      const hash = createHash("sha256");
+      Object.values(bundle).forEach((output) => hash.update(output.type === "chunk" ? output.code : output.source));
+      publicFiles.forEach((file) => hash.update(fs.readFileSync(path.resolve(__dirname, "public", file))));
+      const version = hash.digest("hex").slice(0, 12);
+
+      const source = fs
+        .readFileSync(swPath, "utf8")
+        .replace("self.__PRECACHE_MANIFEST__", JSON.stringify(urls))
+        .replace("__CACHE_VERSION__", version);
+      fs.writeFileSync(swPath, source);
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,6 +47,7 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    precacheManifest(),
   ].filter(Boolean),
   resolve: {
     alias: {